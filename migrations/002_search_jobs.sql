@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS search_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id TEXT UNIQUE NOT NULL,
+  session_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  query TEXT NOT NULL,
+  params TEXT NOT NULL,
+  attempt_id INTEGER,
+  result_group INTEGER,
+  attempt_ids TEXT,
+  error TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at DATETIME,
+  finished_at DATETIME,
+  FOREIGN KEY(session_id) REFERENCES sessions(session_id) ON DELETE CASCADE,
+  FOREIGN KEY(attempt_id) REFERENCES search_attempts(id) ON DELETE SET NULL
+);
+CREATE INDEX IF NOT EXISTS idx_jobs_session ON search_jobs(session_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON search_jobs(status);
@@ -0,0 +1 @@
+ALTER TABLE search_attempts ADD COLUMN search_intent TEXT;
@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS search_profiles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  profile_id TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  query_templates TEXT NOT NULL,
+  judge_rubric TEXT NOT NULL,
+  default_filters TEXT,
+  scaffold_generator TEXT NOT NULL,
+  built_in INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT OR IGNORE INTO search_profiles (profile_id, name, description, query_templates, judge_rubric, default_filters, scaffold_generator, built_in)
+VALUES (
+  'cloudflare-workers',
+  'Cloudflare Workers',
+  'Cloudflare Workers projects and templates (TypeScript/JavaScript, Hono, itty-router).',
+  '["\"Cloudflare Workers\" AND {query}", "(topic:cloudflare-workers OR in:readme \"cloudflare workers\") AND (language:TypeScript OR language:JavaScript) AND {query}", "(hono OR \"itty-router\") AND (in:readme cloudflare) AND {query}"]',
+  'The user request is about Cloudflare Workers. Use rubric: 0.0 off-topic, 0.3 adjacent, 0.6 useful, 0.8 strong, 0.9+ excellent.',
+  '{"exclude_archived":true}',
+  '{"kind": "cloudflare-worker", "system_prompt": "You design production-ready Cloudflare Worker scaffolds. Given repository inspirations and a user prompt, produce JSON with doc_queries (<=5) and plan (<=8 bullet summaries)."}',
+  1
+);
+
+ALTER TABLE sessions ADD COLUMN profile_id TEXT NOT NULL DEFAULT 'cloudflare-workers';
+ALTER TABLE search_attempts ADD COLUMN profile_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_sessions_profile ON sessions(profile_id);
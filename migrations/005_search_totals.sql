@@ -0,0 +1,2 @@
+ALTER TABLE search_attempts ADD COLUMN total_count INTEGER;
+ALTER TABLE search_attempts ADD COLUMN incomplete_results INTEGER NOT NULL DEFAULT 0;
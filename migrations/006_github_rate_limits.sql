@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS github_rate_limits (
+  token_id TEXT NOT NULL,
+  resource TEXT NOT NULL,
+  limit_total INTEGER NOT NULL,
+  remaining INTEGER NOT NULL,
+  reset_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (token_id, resource)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE search_attempts ADD COLUMN search_mode TEXT NOT NULL DEFAULT 'repositories';
+ALTER TABLE search_results ADD COLUMN code_matches TEXT;
@@ -0,0 +1,7 @@
+ALTER TABLE repos ADD COLUMN license_spdx TEXT;
+ALTER TABLE repos ADD COLUMN archived INTEGER;
+ALTER TABLE repos ADD COLUMN fork INTEGER;
+ALTER TABLE repos ADD COLUMN pushed_at DATETIME;
+ALTER TABLE repos ADD COLUMN open_issues_count INTEGER;
+ALTER TABLE repos ADD COLUMN default_branch TEXT;
+ALTER TABLE repos ADD COLUMN head_sha TEXT;
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS readme_cache (
+  repo_id TEXT PRIMARY KEY,
+  full_name TEXT NOT NULL,
+  etag TEXT,
+  sha TEXT,
+  content TEXT,
+  size INTEGER NOT NULL DEFAULT 0,
+  fetched_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_readme_cache_full_name ON readme_cache(full_name);
@@ -0,0 +1 @@
+ALTER TABLE search_results ADD COLUMN source TEXT NOT NULL DEFAULT 'github';
@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS repo_facets (
+  repo_id TEXT PRIMARY KEY,
+  head_sha TEXT,
+  config_files TEXT NOT NULL DEFAULT '[]',
+  bindings TEXT NOT NULL DEFAULT '[]',
+  compatibility_date TEXT,
+  frameworks TEXT NOT NULL DEFAULT '[]',
+  test_tools TEXT NOT NULL DEFAULT '[]',
+  inspected_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
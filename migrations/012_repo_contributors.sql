@@ -0,0 +1,3 @@
+ALTER TABLE repos ADD COLUMN contributors_count INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_repos_pushed_at ON repos(pushed_at);
@@ -0,0 +1,2 @@
+ALTER TABLE repos ADD COLUMN provider TEXT NOT NULL DEFAULT 'github';
+ALTER TABLE search_attempts ADD COLUMN provider TEXT NOT NULL DEFAULT 'github';
@@ -0,0 +1,3 @@
+ALTER TABLE search_results ADD COLUMN matched_queries TEXT;
+ALTER TABLE search_results ADD COLUMN fused_score REAL;
+ALTER TABLE search_results ADD COLUMN fused_rank INTEGER;
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS library_documents (
+  repo_id TEXT PRIMARY KEY,
+  content_hash TEXT NOT NULL,
+  chunk_count INTEGER NOT NULL,
+  indexed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS library_chunks (
+  vector_id TEXT PRIMARY KEY,
+  repo_id TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_library_chunks_repo ON library_chunks(repo_id);
@@ -0,0 +1,21 @@
+CREATE VIRTUAL TABLE IF NOT EXISTS repos_fts USING fts5(
+  repo_id UNINDEXED,
+  full_name,
+  description,
+  topics,
+  readme,
+  tokenize = 'porter unicode61'
+);
+
+INSERT INTO repos_fts (repo_id, full_name, description, topics, readme)
+SELECT
+  repos.id,
+  repos.full_name,
+  COALESCE(repos.description, ''),
+  CASE WHEN json_valid(repos.topics) THEN COALESCE((SELECT group_concat(value, ' ') FROM json_each(repos.topics)), '') ELSE '' END,
+  COALESCE(
+    (SELECT content FROM readme_cache WHERE readme_cache.repo_id = repos.id),
+    (SELECT readme_content FROM search_results WHERE search_results.repo_id = repos.id AND readme_content IS NOT NULL LIMIT 1),
+    ''
+  )
+FROM repos;
@@ -0,0 +1,3 @@
+ALTER TABLE search_attempts ADD COLUMN status TEXT NOT NULL DEFAULT 'completed';
+ALTER TABLE search_attempts ADD COLUMN cancelled_at DATETIME;
+CREATE INDEX IF NOT EXISTS idx_attempts_status ON search_attempts(status);
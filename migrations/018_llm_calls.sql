@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS llm_calls (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT,
+  attempt_id INTEGER,
+  scaffold_id TEXT,
+  purpose TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  cost_usd REAL,
+  status TEXT NOT NULL DEFAULT 'ok',
+  error TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_llm_calls_session ON llm_calls(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_calls_attempt ON llm_calls(attempt_id);
+CREATE INDEX IF NOT EXISTS idx_llm_calls_scaffold ON llm_calls(scaffold_id);
@@ -0,0 +1,5 @@
+ALTER TABLE search_attempts ADD COLUMN parent_attempt_id INTEGER REFERENCES search_attempts(id);
+ALTER TABLE search_attempts ADD COLUMN depth INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE search_attempts ADD COLUMN median_score REAL;
+ALTER TABLE search_attempts ADD COLUMN top5_mean_score REAL;
+CREATE INDEX IF NOT EXISTS idx_attempts_parent ON search_attempts(parent_attempt_id);
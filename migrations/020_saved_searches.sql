@@ -0,0 +1,45 @@
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  saved_search_id TEXT UNIQUE NOT NULL,
+  session_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  params TEXT NOT NULL,
+  filters TEXT NOT NULL,
+  high_score REAL NOT NULL DEFAULT 0.7,
+  schedule TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  next_run_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_run_at DATETIME,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY(session_id) REFERENCES sessions(session_id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_session ON saved_searches(session_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_due ON saved_searches(enabled, next_run_at);
+
+CREATE TABLE IF NOT EXISTS saved_search_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  saved_search_id TEXT NOT NULL,
+  job_id TEXT,
+  status TEXT NOT NULL DEFAULT 'running',
+  triggered_by TEXT NOT NULL,
+  result_count INTEGER,
+  new_count INTEGER,
+  newly_high_count INTEGER,
+  dropped_count INTEGER,
+  diff TEXT,
+  error TEXT,
+  started_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  finished_at DATETIME,
+  FOREIGN KEY(saved_search_id) REFERENCES saved_searches(saved_search_id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_saved_search_runs ON saved_search_runs(saved_search_id, id DESC);
+
+-- Per-run snapshot of the filtered results, diffed by the next run.
+CREATE TABLE IF NOT EXISTS saved_search_run_repos (
+  run_id INTEGER NOT NULL,
+  repo_id TEXT NOT NULL,
+  score REAL,
+  PRIMARY KEY (run_id, repo_id),
+  FOREIGN KEY(run_id) REFERENCES saved_search_runs(id) ON DELETE CASCADE
+);
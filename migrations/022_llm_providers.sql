@@ -0,0 +1,5 @@
+ALTER TABLE sessions ADD COLUMN llm_provider TEXT;
+ALTER TABLE sessions ADD COLUMN llm_model TEXT;
+ALTER TABLE search_profiles ADD COLUMN llm_provider TEXT;
+ALTER TABLE search_profiles ADD COLUMN llm_model TEXT;
+ALTER TABLE llm_calls ADD COLUMN provider TEXT;
@@ -0,0 +1,8 @@
+ALTER TABLE search_results ADD COLUMN score_status TEXT;
+
+UPDATE search_results SET score_status = 'scored' WHERE judge_relevance_score IS NOT NULL;
+
+-- Completed attempts used to judge only their first 20 candidates.
+UPDATE search_results SET score_status = 'skipped'
+WHERE judge_relevance_score IS NULL
+  AND search_attempt_id IN (SELECT id FROM search_attempts WHERE status = 'completed');
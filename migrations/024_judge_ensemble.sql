@@ -0,0 +1,6 @@
+ALTER TABLE search_results ADD COLUMN score_variance REAL;
+ALTER TABLE search_results ADD COLUMN judge_scores TEXT;
+ALTER TABLE search_results ADD COLUMN needs_review INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE search_attempts ADD COLUMN ensemble TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_search_results_needs_review ON search_results(session_id) WHERE needs_review = 1;
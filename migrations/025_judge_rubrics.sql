@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS judge_rubrics (
+  rubric_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  instructions TEXT,
+  criteria TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (rubric_id, version)
+);
+
+ALTER TABLE sessions ADD COLUMN rubric_id TEXT;
+ALTER TABLE sessions ADD COLUMN rubric_version INTEGER;
+ALTER TABLE search_attempts ADD COLUMN rubric_id TEXT;
+ALTER TABLE search_attempts ADD COLUMN rubric_version INTEGER;
+ALTER TABLE search_results ADD COLUMN criteria_scores TEXT;
@@ -0,0 +1 @@
+ALTER TABLE search_attempts ADD COLUMN judge_path TEXT;
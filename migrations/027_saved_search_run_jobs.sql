@@ -0,0 +1,2 @@
+-- Saved search runs are finished by the queue consumer that ran their search job.
+CREATE INDEX IF NOT EXISTS idx_saved_search_runs_job ON saved_search_runs(job_id);
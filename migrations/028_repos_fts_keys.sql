@@ -0,0 +1,11 @@
+-- Stable FTS rowid per repo, so re-indexing deletes by rowid instead of scanning the UNINDEXED
+-- repo_id column. repos.rowid cannot serve: INSERT OR REPLACE into repos assigns a new one each time.
+CREATE TABLE IF NOT EXISTS repos_fts_keys (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_id TEXT UNIQUE NOT NULL
+);
+
+INSERT OR IGNORE INTO repos_fts_keys (id, repo_id)
+SELECT MAX(rowid), repo_id FROM repos_fts GROUP BY repo_id;
+
+DELETE FROM repos_fts WHERE rowid NOT IN (SELECT id FROM repos_fts_keys);
@@ -0,0 +1,59 @@
+import type { Database } from './db';
+
+const POLL_INTERVAL_MS = 2000;
+
+/** Abort reason for a cancelled attempt; GitHub, forge and OpenAI fetches reject with it. */
+export class SearchCancelledError extends Error {
+  constructor(readonly attemptId: number) {
+    super(`search_attempt_cancelled ${attemptId}`);
+    this.name = 'SearchCancelledError';
+  }
+}
+
+export interface AttemptCancellation {
+  signal: AbortSignal;
+  dispose(): void;
+}
+
+/** Controllers for attempts running in this isolate, so a cancel handled here aborts without waiting for a poll. */
+const running = new Map<number, AbortController>();
+
+/**
+ * Returns a signal that aborts once the attempt is cancelled: immediately when the cancel request is
+ * handled by this isolate, otherwise when the next poll of `search_attempts.status` sees
+ * `cancelled` (queue consumers and `waitUntil` jobs usually run elsewhere).
+ */
+export function watchAttemptCancellation(db: Database, attemptId: number, intervalMs = POLL_INTERVAL_MS): AttemptCancellation {
+  const controller = new AbortController();
+  running.set(attemptId, controller);
+  const poll = async () => {
+    try {
+      if (!controller.signal.aborted && (await db.getSearchAttemptStatus(attemptId)) === 'cancelled') {
+        controller.abort(new SearchCancelledError(attemptId));
+      }
+    } catch {
+      // A failed poll is retried on the next tick.
+    }
+  };
+  const timer = setInterval(poll, intervalMs);
+  void poll();
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearInterval(timer);
+      running.delete(attemptId);
+    },
+  };
+}
+
+/**
+ * Persists the cancellation (so pollers in other isolates see it) and aborts the attempt at once if
+ * it runs in this isolate. Returns false when the attempt had already finished.
+ */
+export async function cancelSearchAttempt(db: Database, attemptId: number): Promise<boolean> {
+  const cancelled = await db.finishSearchAttempt(attemptId, 'cancelled');
+  if (cancelled) {
+    running.get(attemptId)?.abort(new SearchCancelledError(attemptId));
+  }
+  return cancelled;
+}
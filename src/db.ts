@@ -1,10 +1,47 @@
 import { chunkArray, dedupeBy } from './util';
+import { RRF_K } from './fusion';
+import { compileFullTextQuery, FTS_WEIGHTS, renderSnippet, SNIPPET_CLOSE, SNIPPET_OPEN, topicsText } from './fulltext';
+import type { GitHubBudget } from './github_client';
+import type { RepoFacets } from './inspector';
+import type { LlmCallRecord, LlmSelection } from './llm';
 
 export interface SessionRow {
   session_id: string;
   created_at: string;
   natural_language_request: string;
   deleted_at: string | null;
+  profile_id: string;
+  llm_provider: string | null;
+  llm_model: string | null;
+  /** The attached judge rubric, pinned to a version. */
+  rubric_id: string | null;
+  rubric_version: number | null;
+}
+
+export interface JudgeRubricRow {
+  rubric_id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  instructions: string | null;
+  criteria: string;
+  created_at: string;
+}
+
+export interface SearchProfileRow {
+  id: number;
+  profile_id: string;
+  name: string;
+  description: string | null;
+  query_templates: string;
+  judge_rubric: string;
+  default_filters: string | null;
+  scaffold_generator: string;
+  llm_provider: string | null;
+  llm_model: string | null;
+  built_in: number;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface RepoRow {
@@ -17,6 +54,132 @@ export interface RepoRow {
   topics: string | null;
   updated_at: string | null;
   etag: string | null;
+  license_spdx: string | null;
+  archived: number | null;
+  fork: number | null;
+  pushed_at: string | null;
+  open_issues_count: number | null;
+  default_branch: string | null;
+  head_sha: string | null;
+  contributors_count: number | null;
+  provider: string;
+}
+
+export interface ReadmeCacheRow {
+  repo_id: string;
+  full_name: string;
+  etag: string | null;
+  sha: string | null;
+  content: string | null;
+  size: number;
+  fetched_at: string;
+}
+
+export type ResultSort = 'score_desc' | 'stars_desc' | 'time_desc' | 'recently_pushed' | 'contributors_desc' | 'fused' | 'text_rank';
+
+export interface RepoFacetsRow {
+  repo_id: string;
+  head_sha: string | null;
+  config_files: string;
+  bindings: string;
+  compatibility_date: string | null;
+  frameworks: string;
+  test_tools: string;
+  inspected_at: string;
+}
+
+export interface LlmCallRow extends LlmCallRecord {
+  id: number;
+  session_id: string | null;
+  attempt_id: number | null;
+  scaffold_id: string | null;
+  created_at: string;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  by_purpose: Array<{ purpose: string; calls: number; prompt_tokens: number; completion_tokens: number; cost_usd: number }>;
+}
+
+export type SavedSearchSchedule = 'hourly' | 'daily' | 'weekly';
+
+export interface SavedSearchRow {
+  id: number;
+  saved_search_id: string;
+  session_id: string;
+  name: string;
+  query: string;
+  params: string;
+  filters: string;
+  high_score: number;
+  schedule: SavedSearchSchedule;
+  enabled: number;
+  next_run_at: string;
+  last_run_at: string | null;
+  created_at: string;
+}
+
+export type SavedSearchRunStatus = 'running' | 'completed' | 'failed';
+
+export interface SavedSearchRunRow {
+  id: number;
+  saved_search_id: string;
+  job_id: string | null;
+  status: SavedSearchRunStatus;
+  triggered_by: 'schedule' | 'manual';
+  result_count: number | null;
+  new_count: number | null;
+  newly_high_count: number | null;
+  dropped_count: number | null;
+  diff: string | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface WebhookRow {
+  id: number;
+  webhook_id: string;
+  session_id: string | null;
+  url: string;
+  secret: string;
+  events: string;
+  created_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDeliveryRow {
+  id: number;
+  webhook_id: string;
+  event_id: string;
+  event_type: string;
+  session_id: string | null;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface LibraryDocumentRow {
+  repo_id: string;
+  content_hash: string;
+  chunk_count: number;
+  indexed_at: string;
+}
+
+export interface LibraryChunkRow {
+  vector_id: string;
+  repo_id: string;
+  chunk_index: number;
+  content: string;
 }
 
 export interface SearchAttemptRow {
@@ -29,6 +192,39 @@ export interface SearchAttemptRow {
   judge_model: string | null;
   judge_model_version: string | null;
   search_strategy_version: string | null;
+  search_intent: string | null;
+  profile_id: string | null;
+  total_count: number | null;
+  incomplete_results: number;
+  search_mode: string;
+  provider: string;
+  status: SearchAttemptStatus;
+  cancelled_at: string | null;
+  parent_attempt_id: number | null;
+  depth: number;
+  median_score: number | null;
+  top5_mean_score: number | null;
+}
+
+export type SearchAttemptStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export type SearchJobStatus = 'queued' | 'running' | 'judging' | 'refining' | 'done' | 'failed' | 'cancelled';
+
+export interface SearchJobRow {
+  id: number;
+  job_id: string;
+  session_id: string;
+  status: SearchJobStatus;
+  query: string;
+  params: string;
+  attempt_id: number | null;
+  result_group: number | null;
+  attempt_ids: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
 }
 
 export interface JudgeReviewRow {
@@ -50,9 +246,32 @@ export interface SearchResultRow {
   judge_finding: string | null;
   judge_relevance_score: number | null;
   batch_id: number | null;
+  code_matches: string | null;
+  source: SearchResultSource;
+  matched_queries: string | null;
+  fused_score: number | null;
+  fused_rank: number | null;
+  score_status: ResultScoreStatus | null;
+  /** Ensemble judging only: variance of the judges' scores, and a JSON array of each judge's score. */
+  score_variance: number | null;
+  judge_scores: string | null;
+  needs_review: boolean;
+  /** JSON object of per-criterion scores when the session has a judge rubric. */
+  criteria_scores: string | null;
   inserted_at: string;
 }
 
+export type SearchResultSource = 'github' | 'prior_session';
+
+/** Null until the attempt's judge pass finishes (and for partial results of cancelled attempts). */
+export type ResultScoreStatus = 'scored' | 'skipped' | 'failed';
+
+export interface PriorSessionRepoRow extends RepoRow {
+  readme: string | null;
+  code_matches: string | null;
+  prior_score: number | null;
+}
+
 export interface ScaffoldRow {
   id: number;
   scaffold_id: string;
@@ -72,18 +291,24 @@ export interface ScaffoldRow {
 export class Database {
   constructor(private readonly db: D1Database) {}
 
-  async createSession(sessionId: string, naturalLanguageRequest: string): Promise<SessionRow> {
+  async createSession(
+    sessionId: string,
+    naturalLanguageRequest: string,
+    profileId: string,
+    llm?: LlmSelection | null,
+    rubric?: { rubricId: string; version: number } | null
+  ): Promise<SessionRow> {
     await this.db
       .prepare(
-        `INSERT OR IGNORE INTO sessions (session_id, natural_language_request)
-         VALUES (?1, ?2)`
+        `INSERT OR IGNORE INTO sessions (session_id, natural_language_request, profile_id, llm_provider, llm_model, rubric_id, rubric_version)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)`
       )
-      .bind(sessionId, naturalLanguageRequest)
+      .bind(sessionId, naturalLanguageRequest, profileId, llm?.provider ?? null, llm?.model ?? null, rubric?.rubricId ?? null, rubric?.version ?? null)
       .run();
 
     const row = await this.db
       .prepare(
-        `SELECT session_id, created_at, natural_language_request, deleted_at
+        `SELECT session_id, created_at, natural_language_request, deleted_at, profile_id, llm_provider, llm_model, rubric_id, rubric_version
          FROM sessions
          WHERE session_id = ?1`
       )
@@ -103,7 +328,7 @@ export class Database {
       params.push(cursor);
       cursorClause = 'AND created_at < ?2';
     }
-    const query = `SELECT session_id, created_at, natural_language_request, deleted_at
+    const query = `SELECT session_id, created_at, natural_language_request, deleted_at, profile_id, llm_provider, llm_model, rubric_id, rubric_version
       FROM sessions
       WHERE deleted_at IS NULL
       ${cursorClause}
@@ -118,7 +343,7 @@ export class Database {
   async getSession(sessionId: string): Promise<SessionRow | null> {
     return this.db
       .prepare(
-        `SELECT session_id, created_at, natural_language_request, deleted_at
+        `SELECT session_id, created_at, natural_language_request, deleted_at, profile_id, llm_provider, llm_model, rubric_id, rubric_version
          FROM sessions
          WHERE session_id = ?1`
       )
@@ -126,12 +351,17 @@ export class Database {
       .first<SessionRow>();
   }
 
+  async setSessionRubric(sessionId: string, rubric: { rubricId: string; version: number } | null): Promise<void> {
+    await this.db
+      .prepare(`UPDATE sessions SET rubric_id = ?2, rubric_version = ?3 WHERE session_id = ?1`)
+      .bind(sessionId, rubric?.rubricId ?? null, rubric?.version ?? null)
+      .run();
+  }
+
   async getLatestAttemptSummary(sessionId: string): Promise<(SearchAttemptRow & { judge_summary: string | null; recommendations: string[] }) | null> {
     const row = await this.db
       .prepare(
-        `SELECT a.id, a.session_id, a.timestamp, a.result_group, a.search_query,
-                a.query_hash, a.judge_model, a.judge_model_version, a.search_strategy_version,
-                jr.overall_judge_findings, jr.judge_recommendations
+        `SELECT a.*, jr.overall_judge_findings, jr.judge_recommendations
          FROM search_attempts a
          LEFT JOIN judge_reviews jr ON jr.search_attempt_id = a.id
          WHERE a.session_id = ?1
@@ -171,6 +401,11 @@ export class Database {
     judgeModel,
     judgeModelVersion,
     searchStrategyVersion,
+    profileId,
+    searchMode,
+    provider,
+    parentAttemptId,
+    depth,
   }: {
     sessionId: string;
     resultGroup: number;
@@ -179,18 +414,37 @@ export class Database {
     judgeModel?: string | null;
     judgeModelVersion?: string | null;
     searchStrategyVersion?: string | null;
+    profileId?: string | null;
+    searchMode?: string;
+    provider?: string;
+    parentAttemptId?: number | null;
+    depth?: number;
   }): Promise<SearchAttemptRow> {
-    await this.db
+    const result = await this.db
       .prepare(
-        `INSERT INTO search_attempts (session_id, result_group, search_query, query_hash, judge_model, judge_model_version, search_strategy_version)
-         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)`
+        `INSERT INTO search_attempts (session_id, result_group, search_query, query_hash, judge_model, judge_model_version, search_strategy_version, profile_id, search_mode, provider, status, parent_attempt_id, depth)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, 'queued', ?11, ?12)`
+      )
+      .bind(
+        sessionId,
+        resultGroup,
+        searchQuery,
+        queryHash ?? null,
+        judgeModel ?? null,
+        judgeModelVersion ?? null,
+        searchStrategyVersion ?? null,
+        profileId ?? null,
+        searchMode ?? 'repositories',
+        provider ?? 'github',
+        parentAttemptId ?? null,
+        depth ?? 0
       )
-      .bind(sessionId, resultGroup, searchQuery, queryHash ?? null, judgeModel ?? null, judgeModelVersion ?? null, searchStrategyVersion ?? null)
       .run();
 
+    // By rowid rather than "latest for the session": beam branches of one session are created back to back.
     const row = await this.db
-      .prepare(`SELECT * FROM search_attempts WHERE session_id = ?1 ORDER BY id DESC LIMIT 1`)
-      .bind(sessionId)
+      .prepare(`SELECT * FROM search_attempts WHERE id = ?1`)
+      .bind(result.meta.last_row_id)
       .first<SearchAttemptRow>();
     if (!row) {
       throw new Error('failed_to_create_attempt');
@@ -198,12 +452,97 @@ export class Database {
     return row;
   }
 
+  async getSearchAttempt(attemptId: number): Promise<SearchAttemptRow | null> {
+    return this.db
+      .prepare(`SELECT * FROM search_attempts WHERE id = ?1`)
+      .bind(attemptId)
+      .first<SearchAttemptRow>();
+  }
+
+  async updateSearchAttemptJudgeModel(attemptId: number, judgeModel: string, judgeModelVersion: string | null): Promise<void> {
+    await this.db
+      .prepare(`UPDATE search_attempts SET judge_model = ?2, judge_model_version = ?3 WHERE id = ?1`)
+      .bind(attemptId, judgeModel, judgeModelVersion)
+      .run();
+  }
+
+  async updateSearchAttemptQuery(attemptId: number, searchQuery: string, queryHash: string | null, searchIntent?: unknown): Promise<void> {
+    await this.db
+      .prepare(`UPDATE search_attempts SET search_query = ?2, query_hash = ?3, search_intent = COALESCE(?4, search_intent) WHERE id = ?1`)
+      .bind(attemptId, searchQuery, queryHash, searchIntent ? JSON.stringify(searchIntent) : null)
+      .run();
+  }
+
+  async getSearchAttemptStatus(attemptId: number): Promise<SearchAttemptStatus | null> {
+    const row = await this.db
+      .prepare(`SELECT status FROM search_attempts WHERE id = ?1`)
+      .bind(attemptId)
+      .first<{ status: SearchAttemptStatus }>();
+    return row?.status ?? null;
+  }
+
+  /** Moves a queued attempt to running; returns false when it was cancelled (or already started) meanwhile. */
+  async startSearchAttempt(attemptId: number): Promise<boolean> {
+    const result = await this.db
+      .prepare(`UPDATE search_attempts SET status = 'running' WHERE id = ?1 AND status = 'queued'`)
+      .bind(attemptId)
+      .run();
+    return (result.meta.changes ?? 0) > 0;
+  }
+
+  /** Moves a queued or running attempt to `status`; returns false when it had already finished or been cancelled. */
+  async finishSearchAttempt(attemptId: number, status: Exclude<SearchAttemptStatus, 'queued' | 'running'>): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE search_attempts
+         SET status = ?2,
+             cancelled_at = CASE WHEN ?2 = 'cancelled' THEN CURRENT_TIMESTAMP ELSE cancelled_at END,
+             incomplete_results = CASE WHEN ?2 = 'cancelled' THEN 1 ELSE incomplete_results END
+         WHERE id = ?1 AND status IN ('queued', 'running')`
+      )
+      .bind(attemptId, status)
+      .run();
+    return (result.meta.changes ?? 0) > 0;
+  }
+
+  async updateSearchAttemptScores(attemptId: number, stats: { median: number; top5Mean: number }): Promise<void> {
+    await this.db
+      .prepare(`UPDATE search_attempts SET median_score = ?2, top5_mean_score = ?3 WHERE id = ?1`)
+      .bind(attemptId, stats.median, stats.top5Mean)
+      .run();
+  }
+
+  async updateSearchAttemptJudgePath(attemptId: number, judgePath: string): Promise<void> {
+    await this.db.prepare(`UPDATE search_attempts SET judge_path = ?2 WHERE id = ?1`).bind(attemptId, judgePath).run();
+  }
+
+  async updateSearchAttemptRubric(attemptId: number, rubricId: string, version: number): Promise<void> {
+    await this.db
+      .prepare(`UPDATE search_attempts SET rubric_id = ?2, rubric_version = ?3 WHERE id = ?1`)
+      .bind(attemptId, rubricId, version)
+      .run();
+  }
+
+  async updateSearchAttemptEnsemble(attemptId: number, ensemble: unknown): Promise<void> {
+    await this.db.prepare(`UPDATE search_attempts SET ensemble = ?2 WHERE id = ?1`).bind(attemptId, JSON.stringify(ensemble)).run();
+  }
+
+  async updateSearchAttemptTotals(attemptId: number, totalCount: number, incompleteResults: boolean): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE search_attempts SET total_count = ?2, incomplete_results = CASE WHEN status = 'cancelled' THEN 1 ELSE ?3 END WHERE id = ?1`
+      )
+      .bind(attemptId, totalCount, incompleteResults ? 1 : 0)
+      .run();
+  }
+
   async insertRepos(repos: RepoRow[]): Promise<void> {
     for (const repo of repos) {
       await this.db
         .prepare(
-          `INSERT OR REPLACE INTO repos (id, full_name, html_url, description, stars, language, topics, updated_at, etag)
-           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)`
+          `INSERT OR REPLACE INTO repos (id, full_name, html_url, description, stars, language, topics, updated_at, etag,
+             license_spdx, archived, fork, pushed_at, open_issues_count, default_branch, head_sha, contributors_count, provider)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17, ?18)`
         )
         .bind(
           repo.id,
@@ -214,18 +553,47 @@ export class Database {
           repo.language ?? null,
           repo.topics ?? null,
           repo.updated_at ?? null,
-          repo.etag ?? null
+          repo.etag ?? null,
+          repo.license_spdx ?? null,
+          repo.archived ?? null,
+          repo.fork ?? null,
+          repo.pushed_at ?? null,
+          repo.open_issues_count ?? null,
+          repo.default_branch ?? null,
+          repo.head_sha ?? null,
+          repo.contributors_count ?? null,
+          repo.provider ?? 'github'
         )
         .run();
     }
   }
 
-  async insertSearchResults(rows: Array<Omit<SearchResultRow, 'id' | 'inserted_at'>>): Promise<void> {
+  /** Replaces each repo's row in the repos_fts full-text index. */
+  /** Each repo keeps one FTS row whose rowid comes from `repos_fts_keys`, so it is replaced by rowid. */
+  async indexRepoText(entries: Array<{ repo: RepoRow; readme: string | null }>): Promise<void> {
+    const ftsRowid = `(SELECT id FROM repos_fts_keys WHERE repo_id = ?1)`;
+    for (const chunk of chunkArray(entries, 50)) {
+      await this.db.batch(
+        chunk.flatMap(({ repo, readme }) => [
+          this.db.prepare(`INSERT OR IGNORE INTO repos_fts_keys (repo_id) VALUES (?1)`).bind(repo.id),
+          this.db.prepare(`DELETE FROM repos_fts WHERE rowid = ${ftsRowid}`).bind(repo.id),
+          this.db
+            .prepare(`INSERT INTO repos_fts (rowid, repo_id, full_name, description, topics, readme) VALUES (${ftsRowid}, ?1, ?2, ?3, ?4, ?5)`)
+            .bind(repo.id, repo.full_name, repo.description ?? '', topicsText(repo.topics), readme ?? ''),
+        ])
+      );
+    }
+  }
+
+  async insertSearchResults(
+    rows: Array<Omit<SearchResultRow, 'id' | 'inserted_at' | 'score_status' | 'score_variance' | 'judge_scores' | 'needs_review' | 'criteria_scores'>>
+  ): Promise<void> {
     for (const row of rows) {
       await this.db
         .prepare(
-          `INSERT OR IGNORE INTO search_results (session_id, search_attempt_id, repo_id, repo_url, readme_content, judge_finding, judge_relevance_score, batch_id)
-           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`
+          `INSERT OR IGNORE INTO search_results (session_id, search_attempt_id, repo_id, repo_url, readme_content, judge_finding, judge_relevance_score, batch_id, code_matches, source,
+             matched_queries, fused_score, fused_rank)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13)`
         )
         .bind(
           row.session_id,
@@ -235,7 +603,12 @@ export class Database {
           row.readme_content ?? null,
           row.judge_finding ?? null,
           row.judge_relevance_score ?? null,
-          row.batch_id ?? null
+          row.batch_id ?? null,
+          row.code_matches ?? null,
+          row.source ?? 'github',
+          row.matched_queries ?? null,
+          row.fused_score ?? null,
+          row.fused_rank ?? null
         )
         .run();
     }
@@ -267,23 +640,71 @@ export class Database {
       .run();
   }
 
-  async updateResultScores(attemptId: number, scores: Array<{ repo_id: string; score: number; note: string }>): Promise<void> {
+  async updateResultScores(
+    attemptId: number,
+    scores: Array<{
+      repo_id: string;
+      score: number;
+      note: string;
+      variance?: number;
+      judge_scores?: Array<{ judge: number; model: string; score: number }>;
+      needs_review?: boolean;
+      criteria?: Record<string, number>;
+    }>
+  ): Promise<void> {
     for (const batch of chunkArray(scores, 25)) {
       const stmt = this.db.prepare(
-        `UPDATE search_results SET judge_relevance_score = ?3, judge_finding = ?4
+        `UPDATE search_results SET judge_relevance_score = ?3, judge_finding = ?4, score_status = 'scored',
+           score_variance = ?5, judge_scores = ?6, needs_review = ?7, criteria_scores = ?8
          WHERE search_attempt_id = ?1 AND repo_id = ?2`
       );
       for (const item of batch) {
-        await stmt.bind(attemptId, item.repo_id, item.score, item.note).run();
+        await stmt
+          .bind(
+            attemptId,
+            item.repo_id,
+            item.score,
+            item.note,
+            item.variance ?? null,
+            item.judge_scores ? JSON.stringify(item.judge_scores) : null,
+            item.needs_review ? 1 : 0,
+            item.criteria ? JSON.stringify(item.criteria) : null
+          )
+          .run();
       }
     }
   }
 
+  async updateResultScoreStatus(attemptId: number, repoIds: string[], status: Exclude<ResultScoreStatus, 'scored'>): Promise<void> {
+    for (const batch of chunkArray(repoIds, 50)) {
+      const placeholders = batch.map((_, idx) => `?${idx + 3}`).join(',');
+      await this.db
+        .prepare(`UPDATE search_results SET score_status = ?2 WHERE search_attempt_id = ?1 AND repo_id IN (${placeholders})`)
+        .bind(attemptId, status, ...batch)
+        .run();
+    }
+  }
+
   async listAttempts(sessionId: string): Promise<
     Array<{
       attempt_id: number;
       result_group: number;
       search_query: string;
+      search_intent: unknown;
+      search_mode: string;
+      provider: string;
+      status: SearchAttemptStatus;
+      cancelled_at: string | null;
+      parent_attempt_id: number | null;
+      depth: number;
+      median_score: number | null;
+      top5_mean_score: number | null;
+      ensemble: unknown;
+      rubric_id: string | null;
+      rubric_version: number | null;
+      judge_path: string | null;
+      total_count: number | null;
+      incomplete_results: boolean;
       timestamp: string;
       judge_summary: string | null;
       recommendations: string[];
@@ -291,7 +712,9 @@ export class Database {
   > {
     const rows = await this.db
       .prepare(
-        `SELECT a.id AS attempt_id, a.result_group, a.search_query, a.timestamp,
+        `SELECT a.id AS attempt_id, a.result_group, a.search_query, a.search_intent, a.search_mode, a.provider, a.status, a.cancelled_at,
+                a.parent_attempt_id, a.depth, a.median_score, a.top5_mean_score, a.ensemble,
+                a.rubric_id, a.rubric_version, a.judge_path, a.total_count, a.incomplete_results, a.timestamp,
                 jr.overall_judge_findings AS judge_summary, jr.judge_recommendations
          FROM search_attempts a
          LEFT JOIN judge_reviews jr ON jr.search_attempt_id = a.id
@@ -299,12 +722,49 @@ export class Database {
          ORDER BY a.timestamp DESC`
       )
       .bind(sessionId)
-      .all<{ attempt_id: number; result_group: number; search_query: string; timestamp: string; judge_summary: string | null; judge_recommendations: string | null }>();
+      .all<{
+        attempt_id: number;
+        result_group: number;
+        search_query: string;
+        search_intent: string | null;
+        search_mode: string;
+        provider: string;
+        status: SearchAttemptStatus;
+        cancelled_at: string | null;
+        parent_attempt_id: number | null;
+        depth: number;
+        median_score: number | null;
+        top5_mean_score: number | null;
+        ensemble: string | null;
+        rubric_id: string | null;
+        rubric_version: number | null;
+        judge_path: string | null;
+        total_count: number | null;
+        incomplete_results: number;
+        timestamp: string;
+        judge_summary: string | null;
+        judge_recommendations: string | null;
+      }>();
 
     return rows.results.map((row) => ({
       attempt_id: row.attempt_id,
       result_group: row.result_group,
       search_query: row.search_query,
+      search_intent: row.search_intent ? JSON.parse(row.search_intent) : null,
+      search_mode: row.search_mode,
+      provider: row.provider,
+      status: row.status,
+      cancelled_at: row.cancelled_at,
+      parent_attempt_id: row.parent_attempt_id,
+      depth: row.depth,
+      median_score: row.median_score,
+      top5_mean_score: row.top5_mean_score,
+      ensemble: row.ensemble ? JSON.parse(row.ensemble) : null,
+      rubric_id: row.rubric_id,
+      rubric_version: row.rubric_version,
+      judge_path: row.judge_path,
+      total_count: row.total_count,
+      incomplete_results: Boolean(row.incomplete_results),
       timestamp: row.timestamp,
       judge_summary: row.judge_summary,
       recommendations: row.judge_recommendations ? JSON.parse(row.judge_recommendations) : [],
@@ -321,17 +781,42 @@ export class Database {
     limit,
     cursor,
     excludeRepoIds,
+    binding,
+    framework,
+    excludeArchived,
+    excludeForks,
+    licenses,
+    pushedAfter,
+    needsReview,
   }: {
     sessionId: string;
     attemptId?: number;
     minScore?: number;
     query?: string;
     dedupe?: boolean;
-    sort?: 'score_desc' | 'stars_desc' | 'time_desc';
+    sort?: ResultSort;
     limit: number;
     cursor?: string | null;
     excludeRepoIds?: string[];
-  }): Promise<{ items: Array<SearchResultRow & { repo: RepoRow | null }>; nextCursor: string | null }> {
+    binding?: string;
+    framework?: string;
+    excludeArchived?: boolean;
+    excludeForks?: boolean;
+    licenses?: string[];
+    pushedAfter?: string;
+    needsReview?: boolean;
+  }): Promise<{
+    items: Array<
+      SearchResultRow & {
+        repo: RepoRow | null;
+        facets: RepoFacets | null;
+        session_fused_score: number | null;
+        text_score: number | null;
+        snippet: string | null;
+      }
+    >;
+    nextCursor: string | null;
+  }> {
     const params: unknown[] = [sessionId];
     let where = 'r.session_id = ?1';
     if (attemptId) {
@@ -342,30 +827,86 @@ export class Database {
       params.push(minScore);
       where += ` AND r.judge_relevance_score >= ?${params.length}`;
     }
-    if (query) {
-      params.push(`%${query.toLowerCase()}%`);
-      where += ` AND (LOWER(repo.full_name) LIKE ?${params.length} OR LOWER(repo.description) LIKE ?${params.length})`;
+    const matchExpression = query ? compileFullTextQuery(query) : null;
+    let textJoin = '';
+    if (matchExpression) {
+      params.push(matchExpression);
+      textJoin = `JOIN (
+        SELECT repo_id, bm25(repos_fts, ${FTS_WEIGHTS.join(', ')}) AS text_rank,
+          snippet(repos_fts, -1, '${SNIPPET_OPEN}', '${SNIPPET_CLOSE}', '…', 24) AS snippet
+        FROM repos_fts
+        WHERE repos_fts MATCH ?${params.length}
+      ) fts ON fts.repo_id = r.repo_id`;
     }
     if (excludeRepoIds?.length) {
       const placeholders = excludeRepoIds.map(() => '?').join(',');
       params.push(...excludeRepoIds);
       where += ` AND r.repo_id NOT IN (${placeholders})`;
     }
+    if (binding) {
+      params.push(binding);
+      where += ` AND EXISTS (SELECT 1 FROM json_each(facets.bindings) WHERE value = ?${params.length})`;
+    }
+    if (framework) {
+      params.push(framework);
+      where += ` AND EXISTS (SELECT 1 FROM json_each(facets.frameworks) WHERE value = ?${params.length})`;
+    }
+    if (excludeArchived) {
+      where += ' AND COALESCE(repo.archived, 0) = 0';
+    }
+    if (excludeForks) {
+      where += ' AND COALESCE(repo.fork, 0) = 0';
+    }
+    if (licenses?.length) {
+      const placeholders = licenses.map((license) => {
+        params.push(license.toUpperCase());
+        return `?${params.length}`;
+      });
+      where += ` AND UPPER(repo.license_spdx) IN (${placeholders.join(',')})`;
+    }
+    if (pushedAfter) {
+      params.push(pushedAfter);
+      where += ` AND repo.pushed_at >= ?${params.length}`;
+    }
+    if (needsReview) {
+      where += ' AND r.needs_review = 1';
+    }
 
-    let orderBy = 'r.inserted_at DESC';
-    if (sort === 'score_desc') {
+    let orderBy = matchExpression ? 'fts.text_rank ASC' : 'r.inserted_at DESC';
+    if (sort === 'time_desc') {
+      orderBy = 'r.inserted_at DESC';
+    } else if (sort === 'text_rank' && matchExpression) {
+      orderBy = 'fts.text_rank ASC';
+    } else if (sort === 'score_desc') {
       orderBy = 'r.judge_relevance_score IS NULL, r.judge_relevance_score DESC';
     } else if (sort === 'stars_desc') {
       orderBy = 'repo.stars IS NULL, repo.stars DESC';
+    } else if (sort === 'recently_pushed') {
+      orderBy = 'repo.pushed_at IS NULL, repo.pushed_at DESC';
+    } else if (sort === 'contributors_desc') {
+      orderBy = 'repo.contributors_count IS NULL, repo.contributors_count DESC';
+    } else if (sort === 'fused') {
+      orderBy = attemptId ? 'r.fused_rank IS NULL, r.fused_rank ASC' : 'fused.session_fused_score IS NULL, fused.session_fused_score DESC';
     }
 
     const cursorClause = cursor ? `AND r.id < ?${params.length + 1}` : '';
     if (cursor) {
       params.push(Number(cursor));
     }
-    const baseQuery = `SELECT r.*, repo.full_name, repo.html_url, repo.description, repo.stars, repo.language, repo.topics
+    const baseQuery = `SELECT r.*, repo.full_name, repo.html_url, repo.description, repo.stars, repo.language, repo.topics,
+        repo.license_spdx, repo.archived, repo.fork, repo.pushed_at, repo.open_issues_count, repo.default_branch, repo.head_sha,
+        repo.contributors_count, repo.provider, facets.repo_id AS facets_repo_id, facets.config_files, facets.bindings, facets.compatibility_date, facets.frameworks, facets.test_tools,
+        fused.session_fused_score, ${matchExpression ? 'fts.text_rank, fts.snippet' : 'NULL AS text_rank, NULL AS snippet'}
       FROM search_results r
       LEFT JOIN repos repo ON repo.id = r.repo_id
+      LEFT JOIN repo_facets facets ON facets.repo_id = r.repo_id
+      LEFT JOIN (
+        SELECT repo_id, SUM(1.0 / (${RRF_K} + fused_rank)) AS session_fused_score
+        FROM search_results
+        WHERE session_id = ?1 AND fused_rank IS NOT NULL
+        GROUP BY repo_id
+      ) fused ON fused.repo_id = r.repo_id
+      ${textJoin}
       WHERE ${where} ${cursorClause}
       ORDER BY ${orderBy}
       LIMIT ${limit}`;
@@ -380,6 +921,19 @@ export class Database {
       judge_finding: row.judge_finding,
       judge_relevance_score: row.judge_relevance_score,
       batch_id: row.batch_id,
+      code_matches: row.code_matches,
+      source: row.source,
+      matched_queries: row.matched_queries,
+      fused_score: row.fused_score,
+      fused_rank: row.fused_rank,
+      score_status: row.score_status,
+      score_variance: row.score_variance,
+      judge_scores: row.judge_scores,
+      needs_review: Boolean(row.needs_review),
+      criteria_scores: row.criteria_scores,
+      session_fused_score: row.session_fused_score,
+      text_score: row.text_rank === null ? null : -row.text_rank,
+      snippet: renderSnippet(row.snippet),
       inserted_at: row.inserted_at,
       repo: row.full_name
         ? {
@@ -392,6 +946,24 @@ export class Database {
             topics: row.topics,
             updated_at: null,
             etag: null,
+            license_spdx: row.license_spdx,
+            archived: row.archived,
+            fork: row.fork,
+            pushed_at: row.pushed_at,
+            open_issues_count: row.open_issues_count,
+            default_branch: row.default_branch,
+            head_sha: row.head_sha,
+            contributors_count: row.contributors_count,
+            provider: row.provider,
+          }
+        : null,
+      facets: row.facets_repo_id
+        ? {
+            config_files: JSON.parse(row.config_files),
+            bindings: JSON.parse(row.bindings),
+            compatibility_date: row.compatibility_date,
+            frameworks: JSON.parse(row.frameworks),
+            test_tools: JSON.parse(row.test_tools),
           }
         : null,
     }));
@@ -411,6 +983,217 @@ export class Database {
     };
   }
 
+  /** Saves a new version of the rubric (version 1 when the id is new); earlier versions are kept unchanged. */
+  async createRubricVersion(data: {
+    rubricId: string;
+    name: string;
+    description?: string | null;
+    instructions?: string | null;
+    criteria: unknown;
+  }): Promise<JudgeRubricRow> {
+    await this.db
+      .prepare(
+        `INSERT INTO judge_rubrics (rubric_id, version, name, description, instructions, criteria)
+         SELECT ?1, COALESCE(MAX(version), 0) + 1, ?2, ?3, ?4, ?5 FROM judge_rubrics WHERE rubric_id = ?1`
+      )
+      .bind(data.rubricId, data.name, data.description ?? null, data.instructions ?? null, JSON.stringify(data.criteria))
+      .run();
+    const row = await this.getRubric(data.rubricId);
+    if (!row) {
+      throw new Error('failed_to_create_rubric');
+    }
+    return row;
+  }
+
+  /** The given version, or the latest one. */
+  async getRubric(rubricId: string, version?: number | null): Promise<JudgeRubricRow | null> {
+    if (version) {
+      return this.db
+        .prepare(`SELECT * FROM judge_rubrics WHERE rubric_id = ?1 AND version = ?2`)
+        .bind(rubricId, version)
+        .first<JudgeRubricRow>();
+    }
+    return this.db
+      .prepare(`SELECT * FROM judge_rubrics WHERE rubric_id = ?1 ORDER BY version DESC LIMIT 1`)
+      .bind(rubricId)
+      .first<JudgeRubricRow>();
+  }
+
+  /** Latest version of every rubric. */
+  async listRubrics(): Promise<JudgeRubricRow[]> {
+    const rows = await this.db
+      .prepare(
+        `SELECT r.* FROM judge_rubrics r
+         WHERE r.version = (SELECT MAX(version) FROM judge_rubrics WHERE rubric_id = r.rubric_id)
+         ORDER BY r.name ASC`
+      )
+      .all<JudgeRubricRow>();
+    return rows.results;
+  }
+
+  async listRubricVersions(rubricId: string): Promise<JudgeRubricRow[]> {
+    const rows = await this.db
+      .prepare(`SELECT * FROM judge_rubrics WHERE rubric_id = ?1 ORDER BY version DESC`)
+      .bind(rubricId)
+      .all<JudgeRubricRow>();
+    return rows.results;
+  }
+
+  async listProfiles(): Promise<SearchProfileRow[]> {
+    const rows = await this.db
+      .prepare(`SELECT * FROM search_profiles ORDER BY built_in DESC, name ASC`)
+      .all<SearchProfileRow>();
+    return rows.results;
+  }
+
+  async getProfile(profileId: string): Promise<SearchProfileRow | null> {
+    return this.db
+      .prepare(`SELECT * FROM search_profiles WHERE profile_id = ?1`)
+      .bind(profileId)
+      .first<SearchProfileRow>();
+  }
+
+  async upsertProfile(data: {
+    profileId: string;
+    name: string;
+    description?: string | null;
+    queryTemplates: string[];
+    judgeRubric: string;
+    defaultFilters: unknown;
+    scaffoldGenerator: unknown;
+    llm?: LlmSelection | null;
+  }): Promise<SearchProfileRow> {
+    await this.db
+      .prepare(
+        `INSERT INTO search_profiles (profile_id, name, description, query_templates, judge_rubric, default_filters, scaffold_generator, llm_provider, llm_model)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)
+         ON CONFLICT(profile_id) DO UPDATE SET
+           name = excluded.name,
+           description = excluded.description,
+           query_templates = excluded.query_templates,
+           judge_rubric = excluded.judge_rubric,
+           default_filters = excluded.default_filters,
+           scaffold_generator = excluded.scaffold_generator,
+           llm_provider = excluded.llm_provider,
+           llm_model = excluded.llm_model,
+           updated_at = CURRENT_TIMESTAMP`
+      )
+      .bind(
+        data.profileId,
+        data.name,
+        data.description ?? null,
+        JSON.stringify(data.queryTemplates),
+        data.judgeRubric,
+        JSON.stringify(data.defaultFilters ?? {}),
+        JSON.stringify(data.scaffoldGenerator),
+        data.llm?.provider ?? null,
+        data.llm?.model ?? null
+      )
+      .run();
+    const row = await this.getProfile(data.profileId);
+    if (!row) {
+      throw new Error('failed_to_save_profile');
+    }
+    return row;
+  }
+
+  async deleteProfile(profileId: string): Promise<void> {
+    await this.db.prepare(`DELETE FROM search_profiles WHERE profile_id = ?1 AND built_in = 0`).bind(profileId).run();
+  }
+
+  async countSessionsForProfile(profileId: string): Promise<number> {
+    const row = await this.db
+      .prepare('SELECT COUNT(*) as count FROM sessions WHERE profile_id = ?1 AND deleted_at IS NULL')
+      .bind(profileId)
+      .first<{ count: number }>();
+    return row?.count ?? 0;
+  }
+
+  async createSearchJob(data: {
+    jobId: string;
+    sessionId: string;
+    query: string;
+    params: unknown;
+    attemptId: number;
+    resultGroup: number;
+  }): Promise<SearchJobRow> {
+    await this.db
+      .prepare(
+        `INSERT INTO search_jobs (job_id, session_id, status, query, params, attempt_id, result_group)
+         VALUES (?1, ?2, 'queued', ?3, ?4, ?5, ?6)`
+      )
+      .bind(data.jobId, data.sessionId, data.query, JSON.stringify(data.params), data.attemptId, data.resultGroup)
+      .run();
+    const row = await this.getSearchJob(data.jobId);
+    if (!row) {
+      throw new Error('failed_to_create_job');
+    }
+    return row;
+  }
+
+  async getSearchJob(jobId: string): Promise<SearchJobRow | null> {
+    return this.db
+      .prepare(`SELECT * FROM search_jobs WHERE job_id = ?1`)
+      .bind(jobId)
+      .first<SearchJobRow>();
+  }
+
+  async listSearchJobs({ sessionId, limit, cursor }: { sessionId: string; limit: number; cursor?: string | null }): Promise<{
+    items: SearchJobRow[];
+    nextCursor: string | null;
+  }> {
+    const params: unknown[] = [sessionId];
+    let where = 'session_id = ?1';
+    if (cursor) {
+      params.push(Number(cursor));
+      where += ` AND id < ?${params.length}`;
+    }
+    params.push(limit);
+    const rows = await this.db
+      .prepare(`SELECT * FROM search_jobs WHERE ${where} ORDER BY id DESC LIMIT ?${params.length}`)
+      .bind(...params)
+      .all<SearchJobRow>();
+    return {
+      items: rows.results,
+      nextCursor: rows.results.length === limit ? String(rows.results[rows.results.length - 1].id) : null,
+    };
+  }
+
+  /** Moves a queued job to running; false when another delivery of the queue message got there first. */
+  async claimSearchJob(jobId: string): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE search_jobs
+         SET status = 'running', updated_at = CURRENT_TIMESTAMP, started_at = COALESCE(started_at, CURRENT_TIMESTAMP)
+         WHERE job_id = ?1 AND status = 'queued'`
+      )
+      .bind(jobId)
+      .run();
+    return (result.meta.changes ?? 0) === 1;
+  }
+
+  async updateSearchJobStatus(
+    jobId: string,
+    status: SearchJobStatus,
+    extra: { attemptIds?: number[]; error?: string | null } = {}
+  ): Promise<void> {
+    const started = status === 'running' ? 'COALESCE(started_at, CURRENT_TIMESTAMP)' : 'started_at';
+    const finished = status === 'done' || status === 'failed' || status === 'cancelled' ? 'CURRENT_TIMESTAMP' : 'finished_at';
+    await this.db
+      .prepare(
+        `UPDATE search_jobs
+         SET status = ?2,
+             attempt_ids = COALESCE(?3, attempt_ids),
+             error = COALESCE(?4, error),
+             updated_at = CURRENT_TIMESTAMP,
+             started_at = ${started},
+             finished_at = ${finished}
+         WHERE job_id = ?1`
+      )
+      .bind(jobId, status, extra.attemptIds ? JSON.stringify(extra.attemptIds) : null, extra.error ?? null)
+      .run();
+  }
+
   async createScaffold(data: {
     scaffoldId: string;
     sessionId: string;
@@ -506,6 +1289,352 @@ export class Database {
     return row?.count ?? 0;
   }
 
+  async recordLlmCall(call: Omit<LlmCallRow, 'id' | 'created_at'>): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO llm_calls (session_id, attempt_id, scaffold_id, purpose, model, prompt_tokens, completion_tokens, latency_ms, cost_usd, status, error, provider)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12)`
+      )
+      .bind(
+        call.session_id,
+        call.attempt_id,
+        call.scaffold_id,
+        call.purpose,
+        call.model,
+        call.prompt_tokens,
+        call.completion_tokens,
+        call.latency_ms,
+        call.cost_usd,
+        call.status,
+        call.error,
+        call.provider
+      )
+      .run();
+  }
+
+  async getLlmUsage(sessionId: string): Promise<LlmUsageTotals> {
+    const rows = await this.db
+      .prepare(
+        `SELECT purpose, COUNT(*) AS calls, SUM(prompt_tokens) AS prompt_tokens, SUM(completion_tokens) AS completion_tokens,
+                COALESCE(SUM(cost_usd), 0) AS cost_usd
+         FROM llm_calls
+         WHERE session_id = ?1
+         GROUP BY purpose
+         ORDER BY purpose`
+      )
+      .bind(sessionId)
+      .all<{ purpose: string; calls: number; prompt_tokens: number; completion_tokens: number; cost_usd: number }>();
+    return {
+      calls: rows.results.reduce((sum, row) => sum + row.calls, 0),
+      prompt_tokens: rows.results.reduce((sum, row) => sum + row.prompt_tokens, 0),
+      completion_tokens: rows.results.reduce((sum, row) => sum + row.completion_tokens, 0),
+      cost_usd: rows.results.reduce((sum, row) => sum + row.cost_usd, 0),
+      by_purpose: rows.results,
+    };
+  }
+
+  async createSavedSearch(data: {
+    savedSearchId: string;
+    sessionId: string;
+    name: string;
+    query: string;
+    params: unknown;
+    filters: unknown;
+    highScore: number;
+    schedule: SavedSearchSchedule;
+    enabled: boolean;
+  }): Promise<SavedSearchRow> {
+    await this.db
+      .prepare(
+        `INSERT INTO saved_searches (saved_search_id, session_id, name, query, params, filters, high_score, schedule, enabled)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)`
+      )
+      .bind(
+        data.savedSearchId,
+        data.sessionId,
+        data.name,
+        data.query,
+        JSON.stringify(data.params),
+        JSON.stringify(data.filters ?? {}),
+        data.highScore,
+        data.schedule,
+        data.enabled ? 1 : 0
+      )
+      .run();
+    const row = await this.getSavedSearch(data.savedSearchId);
+    if (!row) {
+      throw new Error('failed_to_create_saved_search');
+    }
+    return row;
+  }
+
+  async getSavedSearch(savedSearchId: string): Promise<SavedSearchRow | null> {
+    return this.db
+      .prepare(`SELECT * FROM saved_searches WHERE saved_search_id = ?1`)
+      .bind(savedSearchId)
+      .first<SavedSearchRow>();
+  }
+
+  async listSavedSearches(sessionId: string): Promise<SavedSearchRow[]> {
+    const rows = await this.db
+      .prepare(`SELECT * FROM saved_searches WHERE session_id = ?1 ORDER BY id DESC`)
+      .bind(sessionId)
+      .all<SavedSearchRow>();
+    return rows.results;
+  }
+
+  async deleteSavedSearch(savedSearchId: string): Promise<void> {
+    await this.db.prepare(`DELETE FROM saved_searches WHERE saved_search_id = ?1`).bind(savedSearchId).run();
+  }
+
+  async listDueSavedSearches(limit: number): Promise<SavedSearchRow[]> {
+    const rows = await this.db
+      .prepare(`SELECT * FROM saved_searches WHERE enabled = 1 AND next_run_at <= CURRENT_TIMESTAMP ORDER BY next_run_at ASC LIMIT ?1`)
+      .bind(limit)
+      .all<SavedSearchRow>();
+    return rows.results;
+  }
+
+  /**
+   * Pushes `next_run_at` forward by `interval` (an SQLite datetime modifier such as `+1 hour`).
+   * Unless `force` is set, only a due search is claimed, so overlapping cron ticks run it once.
+   */
+  async claimSavedSearch(savedSearchId: string, interval: string, force = false): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE saved_searches
+         SET next_run_at = datetime('now', ?2), last_run_at = CURRENT_TIMESTAMP
+         WHERE saved_search_id = ?1 AND (?3 = 1 OR (enabled = 1 AND next_run_at <= CURRENT_TIMESTAMP))`
+      )
+      .bind(savedSearchId, interval, force ? 1 : 0)
+      .run();
+    return (result.meta.changes ?? 0) > 0;
+  }
+
+  async createSavedSearchRun(savedSearchId: string, triggeredBy: SavedSearchRunRow['triggered_by']): Promise<number> {
+    const result = await this.db
+      .prepare(`INSERT INTO saved_search_runs (saved_search_id, triggered_by) VALUES (?1, ?2)`)
+      .bind(savedSearchId, triggeredBy)
+      .run();
+    return result.meta.last_row_id;
+  }
+
+  async getSavedSearchRunByJob(jobId: string): Promise<SavedSearchRunRow | null> {
+    return this.db.prepare(`SELECT * FROM saved_search_runs WHERE job_id = ?1`).bind(jobId).first<SavedSearchRunRow>();
+  }
+
+  async setSavedSearchRunJob(runId: number, jobId: string): Promise<void> {
+    await this.db.prepare(`UPDATE saved_search_runs SET job_id = ?2 WHERE id = ?1`).bind(runId, jobId).run();
+  }
+
+  async finishSavedSearchRun(
+    runId: number,
+    outcome:
+      | { status: 'completed'; resultCount: number; newCount: number; newlyHighCount: number; droppedCount: number; diff: unknown }
+      | { status: 'failed'; error: string }
+  ): Promise<void> {
+    if (outcome.status === 'failed') {
+      await this.db
+        .prepare(`UPDATE saved_search_runs SET status = 'failed', error = ?2, finished_at = CURRENT_TIMESTAMP WHERE id = ?1`)
+        .bind(runId, outcome.error)
+        .run();
+      return;
+    }
+    await this.db
+      .prepare(
+        `UPDATE saved_search_runs
+         SET status = 'completed', result_count = ?2, new_count = ?3, newly_high_count = ?4, dropped_count = ?5, diff = ?6,
+             finished_at = CURRENT_TIMESTAMP
+         WHERE id = ?1`
+      )
+      .bind(runId, outcome.resultCount, outcome.newCount, outcome.newlyHighCount, outcome.droppedCount, JSON.stringify(outcome.diff))
+      .run();
+  }
+
+  async saveSavedSearchRunRepos(runId: number, repos: Array<{ repo_id: string; score: number | null }>): Promise<void> {
+    for (const chunk of chunkArray(repos, 50)) {
+      await this.db.batch(
+        chunk.map((repo) =>
+          this.db
+            .prepare(`INSERT OR REPLACE INTO saved_search_run_repos (run_id, repo_id, score) VALUES (?1, ?2, ?3)`)
+            .bind(runId, repo.repo_id, repo.score)
+        )
+      );
+    }
+  }
+
+  /** Snapshot of the latest completed run before `runId`; null when there is none to diff against. */
+  async getPreviousRunRepos(savedSearchId: string, runId: number): Promise<Map<string, number | null> | null> {
+    const previous = await this.db
+      .prepare(`SELECT id FROM saved_search_runs WHERE saved_search_id = ?1 AND id < ?2 AND status = 'completed' ORDER BY id DESC LIMIT 1`)
+      .bind(savedSearchId, runId)
+      .first<{ id: number }>();
+    if (!previous) return null;
+    const rows = await this.db
+      .prepare(`SELECT repo_id, score FROM saved_search_run_repos WHERE run_id = ?1`)
+      .bind(previous.id)
+      .all<{ repo_id: string; score: number | null }>();
+    return new Map(rows.results.map((row) => [row.repo_id, row.score]));
+  }
+
+  async listSavedSearchRuns({ savedSearchId, limit, cursor }: { savedSearchId: string; limit: number; cursor?: string | null }): Promise<{
+    items: SavedSearchRunRow[];
+    nextCursor: string | null;
+  }> {
+    const params: unknown[] = [savedSearchId];
+    let where = 'saved_search_id = ?1';
+    if (cursor) {
+      params.push(Number(cursor));
+      where += ` AND id < ?${params.length}`;
+    }
+    params.push(limit);
+    const rows = await this.db
+      .prepare(`SELECT * FROM saved_search_runs WHERE ${where} ORDER BY id DESC LIMIT ?${params.length}`)
+      .bind(...params)
+      .all<SavedSearchRunRow>();
+    return {
+      items: rows.results,
+      nextCursor: rows.results.length === limit ? String(rows.results[rows.results.length - 1].id) : null,
+    };
+  }
+
+  async createWebhook(data: { webhookId: string; sessionId: string | null; url: string; secret: string; events: string[] }): Promise<WebhookRow> {
+    await this.db
+      .prepare(`INSERT INTO webhooks (webhook_id, session_id, url, secret, events) VALUES (?1, ?2, ?3, ?4, ?5)`)
+      .bind(data.webhookId, data.sessionId, data.url, data.secret, JSON.stringify(data.events))
+      .run();
+    const row = await this.getWebhook(data.webhookId);
+    if (!row) {
+      throw new Error('failed_to_create_webhook');
+    }
+    return row;
+  }
+
+  async getWebhook(webhookId: string): Promise<WebhookRow | null> {
+    return this.db.prepare(`SELECT * FROM webhooks WHERE webhook_id = ?1`).bind(webhookId).first<WebhookRow>();
+  }
+
+  /** Without `sessionId` every subscription is listed; with it, that session's plus the global ones. */
+  async listWebhooks(sessionId?: string): Promise<WebhookRow[]> {
+    const rows = sessionId
+      ? await this.db
+          .prepare(`SELECT * FROM webhooks WHERE session_id = ?1 OR session_id IS NULL ORDER BY id DESC`)
+          .bind(sessionId)
+          .all<WebhookRow>()
+      : await this.db.prepare(`SELECT * FROM webhooks ORDER BY id DESC`).all<WebhookRow>();
+    return rows.results;
+  }
+
+  async deleteWebhook(webhookId: string): Promise<void> {
+    await this.db.prepare(`DELETE FROM webhooks WHERE webhook_id = ?1`).bind(webhookId).run();
+  }
+
+  async createWebhookDelivery(data: {
+    webhookId: string;
+    eventId: string;
+    eventType: string;
+    sessionId: string | null;
+    payload: string;
+  }): Promise<WebhookDeliveryRow> {
+    const result = await this.db
+      .prepare(
+        `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, session_id, payload, next_attempt_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, datetime('now', '+60 seconds'))`
+      )
+      .bind(data.webhookId, data.eventId, data.eventType, data.sessionId, data.payload)
+      .run();
+    const row = await this.db
+      .prepare(`SELECT * FROM webhook_deliveries WHERE id = ?1`)
+      .bind(result.meta.last_row_id)
+      .first<WebhookDeliveryRow>();
+    if (!row) {
+      throw new Error('failed_to_create_webhook_delivery');
+    }
+    return row;
+  }
+
+  /** Records one delivery attempt; `retryInSeconds` schedules the next one for a pending delivery. */
+  async recordWebhookDeliveryAttempt(
+    deliveryId: number,
+    outcome: { status: WebhookDeliveryStatus; attempts: number; responseStatus: number | null; error: string | null; retryInSeconds: number | null }
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE webhook_deliveries
+         SET status = ?2, attempts = ?3, response_status = ?4, error = ?5,
+             next_attempt_at = CASE WHEN ?6 IS NULL THEN NULL ELSE datetime('now', '+' || ?6 || ' seconds') END,
+             delivered_at = CASE WHEN ?2 = 'delivered' THEN CURRENT_TIMESTAMP ELSE delivered_at END
+         WHERE id = ?1`
+      )
+      .bind(deliveryId, outcome.status, outcome.attempts, outcome.responseStatus, outcome.error, outcome.retryInSeconds)
+      .run();
+  }
+
+  async listDueWebhookDeliveries(limit: number): Promise<Array<{ delivery: WebhookDeliveryRow; webhook: WebhookRow }>> {
+    const rows = await this.db
+      .prepare(
+        `SELECT d.*, w.url AS webhook_url, w.secret AS webhook_secret, w.session_id AS webhook_session_id, w.events AS webhook_events,
+                w.id AS webhook_row_id, w.created_at AS webhook_created_at
+         FROM webhook_deliveries d
+         JOIN webhooks w ON w.webhook_id = d.webhook_id
+         WHERE d.status = 'pending' AND d.next_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY d.next_attempt_at ASC
+         LIMIT ?1`
+      )
+      .bind(limit)
+      .all<
+        WebhookDeliveryRow & {
+          webhook_url: string;
+          webhook_secret: string;
+          webhook_session_id: string | null;
+          webhook_events: string;
+          webhook_row_id: number;
+          webhook_created_at: string;
+        }
+      >();
+    return rows.results.map(({ webhook_url, webhook_secret, webhook_session_id, webhook_events, webhook_row_id, webhook_created_at, ...delivery }) => ({
+      delivery,
+      webhook: {
+        id: webhook_row_id,
+        webhook_id: delivery.webhook_id,
+        session_id: webhook_session_id,
+        url: webhook_url,
+        secret: webhook_secret,
+        events: webhook_events,
+        created_at: webhook_created_at,
+      },
+    }));
+  }
+
+  async listWebhookDeliveries({ webhookId, limit, cursor }: { webhookId: string; limit: number; cursor?: string | null }): Promise<{
+    items: WebhookDeliveryRow[];
+    nextCursor: string | null;
+  }> {
+    const params: unknown[] = [webhookId];
+    let where = 'webhook_id = ?1';
+    if (cursor) {
+      params.push(Number(cursor));
+      where += ` AND id < ?${params.length}`;
+    }
+    params.push(limit);
+    const rows = await this.db
+      .prepare(`SELECT * FROM webhook_deliveries WHERE ${where} ORDER BY id DESC LIMIT ?${params.length}`)
+      .bind(...params)
+      .all<WebhookDeliveryRow>();
+    return {
+      items: rows.results,
+      nextCursor: rows.results.length === limit ? String(rows.results[rows.results.length - 1].id) : null,
+    };
+  }
+
+  async countAttemptResults(attemptId: number): Promise<number> {
+    const row = await this.db
+      .prepare(`SELECT COUNT(*) AS count FROM search_results WHERE search_attempt_id = ?1`)
+      .bind(attemptId)
+      .first<{ count: number }>();
+    return row?.count ?? 0;
+  }
+
   async countResults(sessionId: string): Promise<number> {
     const row = await this.db
       .prepare('SELECT COUNT(*) as count FROM search_results WHERE session_id = ?1')
@@ -515,32 +1644,154 @@ export class Database {
   }
 
 
-  async getRepoIdsForSessions(sessionIds: string[]): Promise<string[]> {
+  /**
+   * Repositories already stored by the given sessions, one row per repo (the best-scored result
+   * wins), with the cached README falling back to the copy stored on the result row.
+   */
+  /**
+   * One row per repo stored by the given sessions, with its best prior score (SQLite takes the bare
+   * columns from the row that holds the MAX), highest first and capped at `limit`.
+   */
+  async listPriorSessionRepos(sessionIds: string[], limit: number): Promise<PriorSessionRepoRow[]> {
     if (!sessionIds.length) return [];
     const placeholders = sessionIds.map((_, idx) => `?${idx + 1}`).join(',');
     const rows = await this.db
-      .prepare(`SELECT DISTINCT repo_id FROM search_results WHERE session_id IN (${placeholders})`)
-      .bind(...sessionIds)
-      .all<{ repo_id: string }>();
-    return rows.results.map((row) => row.repo_id);
+      .prepare(
+        `SELECT repo.*, COALESCE(rc.content, r.readme_content) AS readme, r.code_matches, MAX(r.judge_relevance_score) AS prior_score
+         FROM search_results r
+         JOIN repos repo ON repo.id = r.repo_id
+         LEFT JOIN readme_cache rc ON rc.repo_id = r.repo_id
+         WHERE r.session_id IN (${placeholders})
+         GROUP BY repo.id
+         ORDER BY prior_score IS NULL, prior_score DESC, MAX(r.id) DESC
+         LIMIT ?${sessionIds.length + 1}`
+      )
+      .bind(...sessionIds, limit)
+      .all<PriorSessionRepoRow>();
+    return rows.results;
   }
 
-  async getRepoEtags(repoFullNames: string[]): Promise<Map<string, string>> {
-    if (!repoFullNames.length) return new Map();
-    const placeholders = repoFullNames.map((_, idx) => `?${idx + 1}`).join(',');
-    const rows = await this.db
-      .prepare(`SELECT full_name, etag FROM repos WHERE full_name IN (${placeholders}) AND etag IS NOT NULL`)
-      .bind(...repoFullNames)
-      .all<{ full_name: string; etag: string }>();
-    return new Map(rows.results.map((row) => [row.full_name, row.etag]));
+  async getStoredContributorCounts(repoIds: string[]): Promise<Map<string, { head_sha: string | null; contributors_count: number }>> {
+    const result = new Map<string, { head_sha: string | null; contributors_count: number }>();
+    for (const chunk of chunkArray(repoIds, 50)) {
+      const placeholders = chunk.map((_, idx) => `?${idx + 1}`).join(',');
+      const rows = await this.db
+        .prepare(`SELECT id, head_sha, contributors_count FROM repos WHERE id IN (${placeholders}) AND contributors_count IS NOT NULL`)
+        .bind(...chunk)
+        .all<{ id: string; head_sha: string | null; contributors_count: number }>();
+      for (const row of rows.results) {
+        result.set(row.id, { head_sha: row.head_sha, contributors_count: row.contributors_count });
+      }
+    }
+    return result;
   }
 
-  async getReadmeContent(repoId: string): Promise<string | null> {
-    const row = await this.db
-      .prepare(`SELECT readme_content FROM search_results WHERE repo_id = ?1 ORDER BY inserted_at DESC LIMIT 1`)
-      .bind(repoId)
-      .first<{ readme_content: string | null }>();
-    return row?.readme_content ?? null;
+  async getRepoFacets(repoIds: string[]): Promise<Map<string, RepoFacetsRow>> {
+    const result = new Map<string, RepoFacetsRow>();
+    for (const chunk of chunkArray(repoIds, 50)) {
+      const placeholders = chunk.map((_, idx) => `?${idx + 1}`).join(',');
+      const rows = await this.db
+        .prepare(`SELECT * FROM repo_facets WHERE repo_id IN (${placeholders})`)
+        .bind(...chunk)
+        .all<RepoFacetsRow>();
+      for (const row of rows.results) {
+        result.set(row.repo_id, row);
+      }
+    }
+    return result;
+  }
+
+  async saveRepoFacets(entries: Array<{ repoId: string; headSha: string | null; facets: RepoFacets }>): Promise<void> {
+    for (const { repoId, headSha, facets } of entries) {
+      await this.db
+        .prepare(
+          `INSERT OR REPLACE INTO repo_facets (repo_id, head_sha, config_files, bindings, compatibility_date, frameworks, test_tools, inspected_at)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, CURRENT_TIMESTAMP)`
+        )
+        .bind(
+          repoId,
+          headSha,
+          JSON.stringify(facets.config_files),
+          JSON.stringify(facets.bindings),
+          facets.compatibility_date,
+          JSON.stringify(facets.frameworks),
+          JSON.stringify(facets.test_tools)
+        )
+        .run();
+    }
+  }
+
+  async getReadmeCache(repoIds: string[]): Promise<Map<string, ReadmeCacheRow>> {
+    if (!repoIds.length) return new Map();
+    const result = new Map<string, ReadmeCacheRow>();
+    for (const chunk of chunkArray(repoIds, 50)) {
+      const placeholders = chunk.map((_, idx) => `?${idx + 1}`).join(',');
+      const rows = await this.db
+        .prepare(`SELECT * FROM readme_cache WHERE repo_id IN (${placeholders})`)
+        .bind(...chunk)
+        .all<ReadmeCacheRow>();
+      for (const row of rows.results) {
+        result.set(row.repo_id, row);
+      }
+    }
+    return result;
+  }
+
+  async getCachedReadme(repoId: string): Promise<ReadmeCacheRow | null> {
+    return this.db.prepare(`SELECT * FROM readme_cache WHERE repo_id = ?1`).bind(repoId).first<ReadmeCacheRow>();
+  }
+
+  async saveReadmeCache(entries: Omit<ReadmeCacheRow, 'size' | 'fetched_at'>[]): Promise<void> {
+    for (const entry of entries) {
+      await this.db
+        .prepare(
+          `INSERT INTO readme_cache (repo_id, full_name, etag, sha, content, size, fetched_at)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, CURRENT_TIMESTAMP)
+           ON CONFLICT(repo_id) DO UPDATE SET full_name = excluded.full_name, etag = excluded.etag, sha = excluded.sha,
+             content = excluded.content, size = excluded.size, fetched_at = excluded.fetched_at`
+        )
+        .bind(entry.repo_id, entry.full_name, entry.etag, entry.sha, entry.content, entry.content?.length ?? 0)
+        .run();
+    }
+  }
+
+  /** Marks cached READMEs as revalidated (a 304 or an unchanged blob SHA) without rewriting content. */
+  async touchReadmeCache(repoIds: string[]): Promise<void> {
+    for (const chunk of chunkArray(repoIds, 50)) {
+      const placeholders = chunk.map((_, idx) => `?${idx + 1}`).join(',');
+      await this.db
+        .prepare(`UPDATE readme_cache SET fetched_at = CURRENT_TIMESTAMP WHERE repo_id IN (${placeholders})`)
+        .bind(...chunk)
+        .run();
+    }
+  }
+
+  async saveGitHubBudgets(budgets: GitHubBudget[]): Promise<void> {
+    for (const budget of budgets) {
+      await this.db
+        .prepare(
+          `INSERT INTO github_rate_limits (token_id, resource, limit_total, remaining, reset_at)
+           VALUES (?1, ?2, ?3, ?4, ?5)
+           ON CONFLICT(token_id, resource) DO UPDATE SET
+             limit_total = excluded.limit_total,
+             remaining = excluded.remaining,
+             reset_at = excluded.reset_at,
+             updated_at = CURRENT_TIMESTAMP`
+        )
+        .bind(budget.token_id, budget.resource, budget.limit, budget.remaining, budget.reset_at)
+        .run();
+    }
+  }
+
+  async listGitHubBudgets(): Promise<Array<GitHubBudget & { updated_at: string }>> {
+    const rows = await this.db
+      .prepare(
+        `SELECT token_id, resource, limit_total AS "limit", remaining, reset_at, updated_at
+         FROM github_rate_limits
+         ORDER BY resource, token_id`
+      )
+      .all<GitHubBudget & { updated_at: string }>();
+    return rows.results;
   }
 
   async getRepoIdsForAttempts(sessionId: string, attemptIds: number[]): Promise<string[]> {
@@ -552,4 +1803,56 @@ export class Database {
       .all<{ repo_id: string }>();
     return rows.results.map((row) => row.repo_id);
   }
+
+  async getLibraryDocuments(repoIds: string[]): Promise<Map<string, LibraryDocumentRow>> {
+    const result = new Map<string, LibraryDocumentRow>();
+    for (const chunk of chunkArray(repoIds, 50)) {
+      const placeholders = chunk.map((_, idx) => `?${idx + 1}`).join(',');
+      const rows = await this.db
+        .prepare(`SELECT * FROM library_documents WHERE repo_id IN (${placeholders})`)
+        .bind(...chunk)
+        .all<LibraryDocumentRow>();
+      for (const row of rows.results) {
+        result.set(row.repo_id, row);
+      }
+    }
+    return result;
+  }
+
+  async saveLibraryDocument(
+    repoId: string,
+    contentHash: string,
+    chunks: Array<Omit<LibraryChunkRow, 'repo_id'>>
+  ): Promise<void> {
+    const statements = [
+      this.db.prepare(`DELETE FROM library_chunks WHERE repo_id = ?1`).bind(repoId),
+      ...chunks.map((chunk) =>
+        this.db
+          .prepare(`INSERT INTO library_chunks (vector_id, repo_id, chunk_index, content) VALUES (?1, ?2, ?3, ?4)`)
+          .bind(chunk.vector_id, repoId, chunk.chunk_index, chunk.content)
+      ),
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO library_documents (repo_id, content_hash, chunk_count, indexed_at)
+           VALUES (?1, ?2, ?3, CURRENT_TIMESTAMP)`
+        )
+        .bind(repoId, contentHash, chunks.length),
+    ];
+    await this.db.batch(statements);
+  }
+
+  async getLibraryChunks(vectorIds: string[]): Promise<Map<string, LibraryChunkRow>> {
+    const result = new Map<string, LibraryChunkRow>();
+    for (const chunk of chunkArray(vectorIds, 50)) {
+      const placeholders = chunk.map((_, idx) => `?${idx + 1}`).join(',');
+      const rows = await this.db
+        .prepare(`SELECT * FROM library_chunks WHERE vector_id IN (${placeholders})`)
+        .bind(...chunk)
+        .all<LibraryChunkRow>();
+      for (const row of rows.results) {
+        result.set(row.vector_id, row);
+      }
+    }
+    return result;
+  }
 }
@@ -0,0 +1,156 @@
+import { escapeHtml } from './util';
+
+/** Column weights for bm25() over repos_fts: repo_id (unindexed), full_name, description, topics, readme. */
+export const FTS_WEIGHTS = [0, 10, 5, 5, 1] as const;
+/** snippet() wraps matches in these control characters so the text can be HTML-escaped before marking. */
+export const SNIPPET_OPEN = '\u0002';
+export const SNIPPET_CLOSE = '\u0003';
+
+export class FullTextQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FullTextQueryError';
+  }
+}
+
+type Token =
+  | { kind: 'term'; value: string; prefix: boolean }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'op'; value: 'AND' | 'OR' | 'NOT' }
+  | { kind: 'open' }
+  | { kind: 'close' };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let idx = 0;
+  while (idx < input.length) {
+    const char = input[idx];
+    if (/\s/.test(char)) {
+      idx++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'open' });
+      idx++;
+    } else if (char === ')') {
+      tokens.push({ kind: 'close' });
+      idx++;
+    } else if (char === '"') {
+      const end = input.indexOf('"', idx + 1);
+      if (end === -1) throw new FullTextQueryError('Unterminated phrase');
+      const phrase = input.slice(idx + 1, end).trim();
+      if (phrase) tokens.push({ kind: 'phrase', value: phrase });
+      idx = end + 1;
+    } else if (char === '-' && idx + 1 < input.length && !/\s/.test(input[idx + 1])) {
+      tokens.push({ kind: 'op', value: 'NOT' });
+      idx++;
+    } else {
+      let end = idx;
+      while (end < input.length && !/[\s()"]/.test(input[end])) end++;
+      const word = input.slice(idx, end);
+      idx = end;
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: 'op', value: word });
+      } else if (word.endsWith('*')) {
+        const stem = word.replace(/\*+$/, '');
+        if (!stem) throw new FullTextQueryError('Prefix search needs at least one character before *');
+        tokens.push({ kind: 'term', value: stem, prefix: true });
+      } else {
+        tokens.push({ kind: 'term', value: word, prefix: false });
+      }
+    }
+  }
+  return tokens;
+}
+
+function isOp(token: Token | undefined, value: 'AND' | 'OR' | 'NOT'): boolean {
+  return token?.kind === 'op' && token.value === value;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Compiles the `q` syntax into an FTS5 MATCH expression: bare words (implicitly ANDed), `"exact
+ * phrases"`, `prefix*`, `AND`/`OR`/`NOT` (upper case), `-excluded` and parentheses. Every term is
+ * quoted, so punctuation in user input (`owner/repo`, `c++`) cannot break the FTS5 grammar. Returns
+ * null for a query with no terms.
+ */
+export function compileFullTextQuery(input: string): string | null {
+  const tokens = tokenize(input);
+  if (!tokens.length) return null;
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  const parsePrimary = (): string => {
+    const token = tokens[pos++];
+    if (!token) throw new FullTextQueryError('Query ends with an operator');
+    if (token.kind === 'term') return token.prefix ? `${quote(token.value)}*` : quote(token.value);
+    if (token.kind === 'phrase') return quote(token.value);
+    if (token.kind === 'open') {
+      const inner = parseOr();
+      if (tokens[pos++]?.kind !== 'close') throw new FullTextQueryError('Unbalanced parentheses');
+      return `(${inner})`;
+    }
+    if (isOp(token, 'NOT')) {
+      throw new FullTextQueryError('NOT and - need a positive term before them');
+    }
+    throw new FullTextQueryError(token.kind === 'close' ? 'Unbalanced parentheses' : `Unexpected ${token.value}`);
+  };
+
+  const parseNot = (): string => {
+    let expr = parsePrimary();
+    for (;;) {
+      if (isOp(tokens[pos], 'AND') && isOp(tokens[pos + 1], 'NOT')) {
+        pos += 2;
+      } else if (isOp(tokens[pos], 'NOT')) {
+        pos++;
+      } else {
+        break;
+      }
+      expr = `${expr} NOT ${parsePrimary()}`;
+    }
+    return expr;
+  };
+
+  const parseAnd = (): string => {
+    const parts = [parseNot()];
+    for (;;) {
+      const token = peek();
+      if (!token || token.kind === 'close' || isOp(token, 'OR')) break;
+      if (isOp(token, 'AND')) pos++;
+      parts.push(parseNot());
+    }
+    return parts.length > 1 ? `(${parts.join(' AND ')})` : parts[0];
+  };
+
+  const parseOr = (): string => {
+    const parts = [parseAnd()];
+    while (isOp(peek(), 'OR')) {
+      pos++;
+      parts.push(parseAnd());
+    }
+    return parts.length > 1 ? `(${parts.join(' OR ')})` : parts[0];
+  };
+
+  const expr = parseOr();
+  if (pos < tokens.length) throw new FullTextQueryError('Unbalanced parentheses');
+  return expr;
+}
+
+/** HTML-escapes an FTS5 snippet and turns its match markers into `<mark>` tags. */
+export function renderSnippet(snippet: string | null): string | null {
+  if (snippet === null) return null;
+  return escapeHtml(snippet).split(SNIPPET_OPEN).join('<mark>').split(SNIPPET_CLOSE).join('</mark>');
+}
+
+export function topicsText(topics: string | string[] | null): string {
+  if (!topics) return '';
+  if (Array.isArray(topics)) return topics.join(' ');
+  try {
+    const parsed = JSON.parse(topics);
+    return Array.isArray(parsed) ? parsed.join(' ') : topics;
+  } catch {
+    return topics;
+  }
+}
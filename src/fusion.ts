@@ -0,0 +1,44 @@
+import type { GitHubRepository, GitHubSearchResponse } from './github';
+
+/** The usual RRF constant: large enough that a single first place does not dominate agreement. */
+export const RRF_K = 60;
+
+export interface FusedRepo {
+  repo: GitHubRepository;
+  fusedScore: number;
+  fusedRank: number;
+  matchedQueries: string[];
+}
+
+/**
+ * Reciprocal rank fusion of the per-query rankings: each query contributes `1 / (k + rank)` for
+ * every repo it returned, so repos found by several expanded queries rise above single hits
+ * regardless of which template ran first. Ties keep first-seen order.
+ */
+export function fuseRankings(responses: GitHubSearchResponse[], k = RRF_K): FusedRepo[] {
+  const fused = new Map<string, { repo: GitHubRepository; fusedScore: number; matchedQueries: string[]; order: number }>();
+  for (const response of responses) {
+    const seen = new Set<string>();
+    let rank = 0;
+    for (const repo of response.items) {
+      if (seen.has(repo.node_id)) continue;
+      seen.add(repo.node_id);
+      rank++;
+      const entry = fused.get(repo.node_id);
+      if (entry) {
+        entry.fusedScore += 1 / (k + rank);
+        entry.matchedQueries.push(response.query);
+      } else {
+        fused.set(repo.node_id, { repo, fusedScore: 1 / (k + rank), matchedQueries: [response.query], order: fused.size });
+      }
+    }
+  }
+  return [...fused.values()]
+    .sort((a, b) => b.fusedScore - a.fusedScore || a.order - b.order)
+    .map((entry, idx) => ({
+      repo: entry.repo,
+      fusedScore: entry.fusedScore,
+      fusedRank: idx + 1,
+      matchedQueries: entry.matchedQueries,
+    }));
+}
@@ -1,12 +1,14 @@
-import { dedupeBy } from './util';
+import { mapWithConcurrency } from './util';
+import { GitHubApiError } from './github_client';
+import type { GitHubClient } from './github_client';
 import type { RepoRow } from './db';
+import type { ProviderKind } from './providers';
 
 export interface GitHubSearchOptions {
-  query: string;
-  baseKeywords?: boolean;
+  queries: string[];
   maxResults?: number;
-  token?: string;
-  searchWithinRepos?: string[];
+  client: GitHubClient;
+  signal?: AbortSignal;
 }
 
 export interface GitHubRepository {
@@ -21,163 +23,303 @@ export interface GitHubRepository {
   updated_at: string;
   default_branch: string;
   etag?: string;
+  code_matches?: CodeMatch[];
+  license_spdx?: string | null;
+  archived?: boolean;
+  fork?: boolean;
+  pushed_at?: string | null;
+  open_issues_count?: number | null;
+  head_sha?: string | null;
+  contributors_count?: number | null;
+  provider?: ProviderKind;
+}
+
+export interface CodeMatch {
+  path: string;
+  fragments: string[];
 }
 
 export interface GitHubSearchResponse {
   query: string;
   items: GitHubRepository[];
+  totalCount: number;
+  incompleteResults: boolean;
 }
 
-const WORKER_KEYWORD_TEMPLATE = (
-  query: string
-) => `"Cloudflare Workers" AND ${query}`;
+/** GitHub's search API never returns more than 1000 results for a single query. */
+export const GITHUB_SEARCH_RESULT_CAP = 1000;
+const MAX_PER_PAGE = 100;
 
-const LANGUAGE_TOPIC_TEMPLATE = (
-  query: string
-) => `(topic:cloudflare-workers OR in:readme "cloudflare workers") AND (language:TypeScript OR language:JavaScript) AND ${query}`;
-
-const FRAMEWORK_TEMPLATE = (
-  query: string
-) => `(hono OR "itty-router") AND (in:readme cloudflare) AND ${query}`;
-
-export function buildSearchQueries(naturalLanguage: string, baseKeywords = false): string[] {
-  const sanitized = naturalLanguage.replace(/"/g, ' ');
-  const tokens = sanitized
-    .split(/\s+/)
-    .map((t) => t.trim())
-    .filter(Boolean);
-  const additional = tokens.length ? tokens.join(' ') : naturalLanguage;
-  if (!baseKeywords) {
-    return [additional];
-  }
-  return [
-    WORKER_KEYWORD_TEMPLATE(additional),
-    LANGUAGE_TOPIC_TEMPLATE(additional),
-    FRAMEWORK_TEMPLATE(additional),
-  ];
-}
-
-async function fetchGitHub(url: string, token?: string, init?: RequestInit): Promise<Response> {
-  const headers: Record<string, string> = {
-    Accept: 'application/vnd.github+json',
-    'User-Agent': 'GitHub-NL-Search-Worker',
-  };
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-  const res = await fetch(url, {
-    ...init,
-    headers: {
-      ...headers,
-      ...(init?.headers as Record<string, string> | undefined),
-    },
-  });
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`GitHub API error ${res.status}: ${body}`);
-  }
-  return res;
+export interface ReadmeFetchResult {
+  content: string | null;
+  etag?: string;
+  sha?: string;
+  notModified?: boolean;
 }
 
 export async function fetchReadme(
   fullName: string,
-  token?: string,
-  etag?: string
-): Promise<{ content: string | null; etag?: string }> {
+  client: GitHubClient,
+  etag?: string,
+  signal?: AbortSignal
+): Promise<ReadmeFetchResult> {
   try {
     const headers: Record<string, string> = {
-      Accept: 'application/vnd.github.raw+json',
+      Accept: 'application/vnd.github+json',
     };
     if (etag) {
       headers['If-None-Match'] = etag;
     }
-    const res = await fetchGitHub(`https://api.github.com/repos/${fullName}/readme`, token, {
+    const res = await client.request(`/repos/${fullName}/readme`, {
       headers,
+      signal,
     });
     if (res.status === 304) {
-      return { content: null, etag };
+      return { content: null, etag, notModified: true };
     }
     const newEtag = res.headers.get('etag') ?? undefined;
-    const contentType = res.headers.get('content-type');
-    const text = contentType?.includes('application/json') ? await res.json() : await res.text();
-    if (typeof text === 'object' && text && 'content' in text) {
-      return { content: atob((text as any).content), etag: newEtag };
-    }
-    return { content: typeof text === 'string' ? text : JSON.stringify(text), etag: newEtag };
+    const json = (await res.json()) as { content?: string; encoding?: string; sha?: string };
+    const content = json.content && json.encoding === 'base64' ? decodeBase64(json.content) : json.content ?? null;
+    return { content, etag: newEtag, sha: json.sha };
   } catch (err: any) {
-    if (err instanceof Error && err.message.includes('404')) {
+    if (err instanceof GitHubApiError && err.status === 404) {
       return { content: null };
     }
     throw err;
   }
 }
 
-export async function runGitHubSearch(options: GitHubSearchOptions): Promise<GitHubSearchResponse[]> {
-  const {
-    query,
-    baseKeywords = false,
-    maxResults = 30,
-    token,
-    searchWithinRepos = [],
-  } = options;
-  const queries = buildSearchQueries(query, baseKeywords);
-  const perQueryLimit = Math.max(1, Math.floor(maxResults / queries.length));
-
-  const outputs: GitHubSearchResponse[] = [];
-
-  for (const q of queries) {
+/** Raw contents of a file on the default branch, or null when the repo has no such file. */
+export async function fetchRepoFile(fullName: string, path: string, client: GitHubClient): Promise<string | null> {
+  try {
+    const res = await client.request(`/repos/${fullName}/contents/${path}`, {
+      headers: { Accept: 'application/vnd.github.raw+json' },
+    });
+    return await res.text();
+  } catch (err) {
+    if (err instanceof GitHubApiError && err.status === 404) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Contributor count from a one-per-page listing: the `rel="last"` page number is the total. Empty
+ * repositories answer 204.
+ */
+export async function fetchContributorCount(fullName: string, client: GitHubClient): Promise<number | null> {
+  try {
+    const res = await client.request(`/repos/${fullName}/contributors?per_page=1&anon=1`);
+    if (res.status === 204) {
+      return 0;
+    }
+    const last = parseLastPage(res.headers.get('link'));
+    if (last !== null) {
+      return last;
+    }
+    const items = (await res.json()) as unknown[];
+    return Array.isArray(items) ? items.length : null;
+  } catch (err) {
+    // The count is optional enrichment: a missing repo, a huge history (403) or an exhausted budget (429) leave it unknown.
+    if (err instanceof GitHubApiError) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+function parseLastPage(linkHeader: string | null): number | null {
+  const match = linkHeader?.match(/<([^>]+)>\s*;\s*rel="last"/);
+  if (!match) return null;
+  const page = Number(new URL(match[1]).searchParams.get('page'));
+  return Number.isFinite(page) && page > 0 ? page : null;
+}
+
+function decodeBase64(value: string): string {
+  const binary = atob(value.replace(/\n/g, ''));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+export function parseNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+function mapSearchItem(repo: any): GitHubRepository {
+  return {
+    id: repo.node_id || repo.id,
+    node_id: repo.node_id || repo.id,
+    full_name: repo.full_name,
+    html_url: repo.html_url,
+    description: repo.description,
+    stargazers_count: repo.stargazers_count,
+    language: repo.language,
+    topics: Array.isArray(repo.topics) ? repo.topics : [],
+    updated_at: repo.updated_at,
+    default_branch: repo.default_branch,
+    license_spdx: repo.license?.spdx_id ?? null,
+    archived: Boolean(repo.archived),
+    fork: Boolean(repo.fork),
+    pushed_at: repo.pushed_at ?? null,
+    open_issues_count: repo.open_issues_count ?? null,
+  };
+}
+
+interface SearchPage<T> {
+  query: string;
+  items: T[];
+  totalCount: number;
+  incompleteResults: boolean;
+}
+
+interface QueryCursor<T> {
+  page: SearchPage<T>;
+  nextUrl: string | null;
+  fetched: number;
+  known: Set<string>;
+}
+
+/**
+ * Walks the result pages of every expanded query round-robin, following the `Link` header, until
+ * `maxResults` unique repositories (per `repoKey`) are collected, every query is exhausted, or
+ * GitHub's 1000-result cap is hit. Round-robin keeps the first template from crowding out the others.
+ */
+async function paginateSearch<T>(
+  client: GitHubClient,
+  endpoint: string,
+  queries: string[],
+  options: {
+    maxResults: number;
+    params?: Record<string, string>;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+    itemKey: (item: any) => string;
+    repoKey: (item: any) => string;
+    map: (item: any) => T;
+  }
+): Promise<SearchPage<T>[]> {
+  const { maxResults } = options;
+  const perPage = Math.min(MAX_PER_PAGE, Math.max(1, Math.ceil(maxResults / queries.length)));
+
+  const seen = new Set<string>();
+  const cursors: QueryCursor<T>[] = queries.map((q) => {
     const searchParams = new URLSearchParams({
       q: q,
-      per_page: String(perQueryLimit),
-      sort: 'stars',
-      order: 'desc',
-    });
-    const url = `https://api.github.com/search/repositories?${searchParams.toString()}`;
-    const res = await fetchGitHub(url, token);
-    const json = (await res.json()) as { items: any[] };
-
-    const repos = dedupeBy(json.items ?? [], (item) => item.node_id);
-
-    outputs.push({
-      query: q,
-      items: repos.map((repo) => ({
-        id: repo.node_id || repo.id,
-        node_id: repo.node_id || repo.id,
-        full_name: repo.full_name,
-        html_url: repo.html_url,
-        description: repo.description,
-        stargazers_count: repo.stargazers_count,
-        language: repo.language,
-        topics: Array.isArray(repo.topics) ? repo.topics : [],
-        updated_at: repo.updated_at,
-        default_branch: repo.default_branch,
-      })),
+      per_page: String(perPage),
+      ...options.params,
     });
+    return {
+      page: { query: q, items: [], totalCount: 0, incompleteResults: false },
+      nextUrl: `${endpoint}?${searchParams.toString()}`,
+      fetched: 0,
+      known: new Set(),
+    };
+  });
+
+  while (seen.size < maxResults) {
+    const active = cursors.filter((cursor) => cursor.nextUrl && cursor.fetched < GITHUB_SEARCH_RESULT_CAP);
+    if (!active.length) break;
+    for (const cursor of active) {
+      if (seen.size >= maxResults) break;
+      const res = await client.request(cursor.nextUrl!, { headers: options.headers, signal: options.signal });
+      const json = (await res.json()) as { total_count?: number; incomplete_results?: boolean; items?: any[] };
+      const items = json.items ?? [];
+      cursor.fetched += items.length;
+      cursor.page.totalCount = json.total_count ?? cursor.page.totalCount;
+      cursor.page.incompleteResults = cursor.page.incompleteResults || Boolean(json.incomplete_results);
+      cursor.nextUrl = items.length ? parseNextLink(res.headers.get('link')) : null;
+
+      for (const item of items) {
+        const key = options.itemKey(item);
+        if (cursor.known.has(key)) continue;
+        const repoKey = options.repoKey(item);
+        if (!seen.has(repoKey)) {
+          if (seen.size >= maxResults) continue;
+          seen.add(repoKey);
+        }
+        cursor.known.add(key);
+        cursor.page.items.push(options.map(item));
+      }
+    }
   }
 
-  if (searchWithinRepos.length) {
-    outputs.push({
-      query: 'session-bias',
-      items: searchWithinRepos.map((id) => ({
-        repo: {
-          id,
-          node_id: id,
-          full_name: id,
-          html_url: `https://github.com/${id}`,
-          description: null,
-          stargazers_count: 0,
-          language: null,
-          topics: [],
-          updated_at: new Date().toISOString(),
-          default_branch: 'main',
-        },
-        readme: null,
-        sourceQuery: 'session-bias',
-      })),
-    });
+  return cursors.map((cursor) => cursor.page);
+}
+
+export async function runGitHubSearch(options: GitHubSearchOptions): Promise<GitHubSearchResponse[]> {
+  const { queries, maxResults = 30, client, signal } = options;
+
+  return paginateSearch(client, '/search/repositories', queries, {
+    maxResults,
+    signal,
+    params: { sort: 'stars', order: 'desc' },
+    itemKey: (item) => item.node_id,
+    repoKey: (item) => item.node_id,
+    map: mapSearchItem,
+  });
+}
+
+async function fetchRepository(client: GitHubClient, fullName: string, signal?: AbortSignal): Promise<GitHubRepository | null> {
+  try {
+    const res = await client.request(`/repos/${fullName}`, { signal });
+    return mapSearchItem(await res.json());
+  } catch (err) {
+    if (err instanceof GitHubApiError && err.status === 404) {
+      return null;
+    }
+    throw err;
   }
+}
 
-  return outputs;
+/**
+ * Code search mode: finds files via `/search/code` (with text-match fragments), groups the hits
+ * back to their repositories and hydrates each repository, since code search only returns a
+ * minimal repository object.
+ */
+export async function runGitHubCodeSearch(options: GitHubSearchOptions): Promise<GitHubSearchResponse[]> {
+  const { queries, maxResults = 30, client, signal } = options;
+  const pages = await paginateSearch(client, '/search/code', queries, {
+    maxResults,
+    signal,
+    headers: { Accept: 'application/vnd.github.text-match+json' },
+    itemKey: (item) => `${item.repository?.node_id}:${item.path}`,
+    repoKey: (item) => item.repository?.node_id,
+    map: (item) => ({
+      fullName: item.repository?.full_name as string,
+      path: item.path as string,
+      fragments: Array.isArray(item.text_matches)
+        ? item.text_matches.map((match: any) => String(match.fragment ?? '')).filter(Boolean)
+        : [],
+    }),
+  });
+
+  const fullNames = [...new Set(pages.flatMap((page) => page.items.map((item) => item.fullName)))].filter(Boolean);
+  const hydrated = await mapWithConcurrency(fullNames, 5, (fullName) => fetchRepository(client, fullName, signal));
+  const repos = new Map(fullNames.map((fullName, idx) => [fullName, hydrated[idx]]));
+
+  return pages.map((page) => {
+    const grouped = new Map<string, GitHubRepository>();
+    for (const hit of page.items) {
+      const repo = repos.get(hit.fullName);
+      if (!repo) continue;
+      const entry = grouped.get(hit.fullName) ?? { ...repo, code_matches: [] };
+      entry.code_matches!.push({ path: hit.path, fragments: hit.fragments });
+      grouped.set(hit.fullName, entry);
+    }
+    return {
+      query: page.query,
+      items: [...grouped.values()],
+      totalCount: page.totalCount,
+      incompleteResults: page.incompleteResults,
+    };
+  });
 }
 
 export function mapRepoToRow(repo: GitHubRepository): RepoRow {
@@ -191,5 +333,38 @@ export function mapRepoToRow(repo: GitHubRepository): RepoRow {
     topics: JSON.stringify(repo.topics),
     updated_at: repo.updated_at,
     etag: repo.etag ?? null,
+    license_spdx: repo.license_spdx ?? null,
+    archived: repo.archived === undefined ? null : repo.archived ? 1 : 0,
+    fork: repo.fork === undefined ? null : repo.fork ? 1 : 0,
+    pushed_at: repo.pushed_at ?? null,
+    open_issues_count: repo.open_issues_count ?? null,
+    default_branch: repo.default_branch ?? null,
+    head_sha: repo.head_sha ?? null,
+    contributors_count: repo.contributors_count ?? null,
+    provider: repo.provider ?? 'github',
+  };
+}
+
+/** Inverse of mapRepoToRow, used when stored repos are re-scored without calling GitHub. */
+export function mapRowToRepo(row: RepoRow): GitHubRepository {
+  return {
+    id: row.id,
+    node_id: row.id,
+    full_name: row.full_name,
+    html_url: row.html_url,
+    description: row.description,
+    stargazers_count: row.stars ?? 0,
+    language: row.language,
+    topics: row.topics ? JSON.parse(row.topics) : [],
+    updated_at: row.updated_at ?? '',
+    default_branch: row.default_branch ?? 'main',
+    license_spdx: row.license_spdx,
+    archived: row.archived === null ? undefined : row.archived === 1,
+    fork: row.fork === null ? undefined : row.fork === 1,
+    pushed_at: row.pushed_at,
+    open_issues_count: row.open_issues_count,
+    head_sha: row.head_sha,
+    contributors_count: row.contributors_count,
+    provider: row.provider as ProviderKind,
   };
 }
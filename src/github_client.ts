@@ -0,0 +1,257 @@
+import { hashString, sleep } from './util';
+
+export type GitHubResource = 'core' | 'search' | 'code_search' | 'graphql';
+
+export interface GitHubEnv {
+  GITHUB_TOKEN?: string;
+  GITHUB_TOKENS?: string;
+  GITHUB_API_URL?: string;
+}
+
+export interface GitHubBudget {
+  token_id: string;
+  resource: string;
+  limit: number;
+  remaining: number;
+  reset_at: string;
+}
+
+export interface GitHubThrottleEvent {
+  token_id: string;
+  resource: string;
+  status: number;
+  wait_ms: number;
+  remaining: number | null;
+  reset_at: string | null;
+  rotated: boolean;
+}
+
+export interface GitHubClientOptions {
+  tokens: string[];
+  baseUrl?: string;
+  maxRetries?: number;
+  maxWaitMs?: number;
+  onThrottle?: (event: GitHubThrottleEvent) => void | Promise<void>;
+  /** Aborts in-flight requests and throttle back-off waits, e.g. when the search attempt is cancelled. */
+  signal?: AbortSignal;
+}
+
+export class GitHubApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly resource: GitHubResource,
+    body: string
+  ) {
+    super(`GitHub API error ${status}: ${body}`);
+    this.name = 'GitHubApiError';
+  }
+}
+
+interface TokenSlot {
+  token: string | null;
+  id: string | null;
+  budgets: Map<string, { limit: number; remaining: number; resetAt: number }>;
+}
+
+/** Tokens come from the comma/newline separated GITHUB_TOKENS pool plus the single GITHUB_TOKEN. */
+export function parseGitHubTokens(env: GitHubEnv): string[] {
+  const pool = (env.GITHUB_TOKENS ?? '')
+    .split(/[\s,]+/)
+    .map((token) => token.trim())
+    .filter(Boolean);
+  if (env.GITHUB_TOKEN) {
+    pool.push(env.GITHUB_TOKEN);
+  }
+  return [...new Set(pool)];
+}
+
+function resourceForPath(path: string): GitHubResource {
+  if (path.includes('/search/code')) return 'code_search';
+  if (path.includes('/search/')) return 'search';
+  if (path.endsWith('/graphql')) return 'graphql';
+  return 'core';
+}
+
+/**
+ * Rate-limit-aware GitHub REST/GraphQL client. It tracks `X-RateLimit-*` budgets per token and
+ * resource (search, code search, core and GraphQL budgets are independent on GitHub), always picks
+ * the token with the most remaining budget, and on 403/429 throttling rotates to another token or
+ * waits for `Retry-After`/the reset time before retrying.
+ */
+export class GitHubClient {
+  readonly baseUrl: string;
+  private readonly slots: TokenSlot[];
+  private readonly maxRetries: number;
+  private readonly maxWaitMs: number;
+  private readonly onThrottle?: GitHubClientOptions['onThrottle'];
+  private readonly signal?: AbortSignal;
+
+  constructor(options: GitHubClientOptions) {
+    this.baseUrl = (options.baseUrl ?? 'https://api.github.com').replace(/\/$/, '');
+    const tokens = options.tokens.length ? options.tokens : [null];
+    this.slots = tokens.map((token) => ({ token, id: token ? null : 'anonymous', budgets: new Map() }));
+    this.maxRetries = options.maxRetries ?? 4;
+    this.maxWaitMs = options.maxWaitMs ?? 60_000;
+    this.onThrottle = options.onThrottle;
+    this.signal = options.signal;
+  }
+
+  get authenticated(): boolean {
+    return this.slots.some((slot) => slot.token !== null);
+  }
+
+  /** Requests left on `resource` across the token pool; null while some token has not reported it yet. */
+  remaining(resource: GitHubResource): number | null {
+    let total = 0;
+    for (const slot of this.slots) {
+      const budget = slot.budgets.get(resource);
+      if (!budget) return null;
+      total += budget.resetAt <= Date.now() ? budget.limit : budget.remaining;
+    }
+    return total;
+  }
+
+  /** github.com serves GraphQL at `/graphql`; Enterprise Server at `/api/graphql` next to `/api/v3`. */
+  get graphqlUrl(): string {
+    return this.baseUrl.endsWith('/api/v3') ? `${this.baseUrl.slice(0, -3)}/graphql` : `${this.baseUrl}/graphql`;
+  }
+
+  async request(pathOrUrl: string, init: RequestInit = {}): Promise<Response> {
+    const url = pathOrUrl.startsWith('http') ? pathOrUrl : `${this.baseUrl}${pathOrUrl}`;
+    const resource = resourceForPath(new URL(url).pathname);
+    const signal = init.signal ?? this.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      const slot = await this.pickSlot(resource, signal);
+      const headers: Record<string, string> = {
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'GitHub-NL-Search-Worker',
+        ...(init.headers as Record<string, string> | undefined),
+      };
+      if (slot.token) {
+        headers.Authorization = `Bearer ${slot.token}`;
+      }
+      const res = await fetch(url, { ...init, headers, signal });
+      this.recordBudget(slot, resource, res.headers);
+
+      if (res.ok || res.status === 304) {
+        return res;
+      }
+
+      const body = await res.text();
+      const waitMs = this.throttleWaitMs(res, body);
+      if (waitMs === null || attempt >= this.maxRetries) {
+        throw new GitHubApiError(res.status, resource, body);
+      }
+
+      const budget = slot.budgets.get(res.headers.get('x-ratelimit-resource') ?? resource);
+      if (budget) {
+        budget.remaining = 0;
+        budget.resetAt = Math.max(budget.resetAt, Date.now() + waitMs);
+      } else {
+        slot.budgets.set(resource, { limit: 0, remaining: 0, resetAt: Date.now() + waitMs });
+      }
+      const rotated = this.slots.some((other) => other !== slot && this.available(other, resource));
+      await this.onThrottle?.({
+        token_id: await this.slotId(slot),
+        resource,
+        status: res.status,
+        wait_ms: rotated ? 0 : waitMs,
+        remaining: budget?.remaining ?? null,
+        reset_at: budget ? new Date(budget.resetAt).toISOString() : null,
+        rotated,
+      });
+      if (!rotated) {
+        if (waitMs > this.maxWaitMs) {
+          throw new GitHubApiError(res.status, resource, body);
+        }
+        await sleep(waitMs, signal);
+      }
+    }
+  }
+
+  async budgets(): Promise<GitHubBudget[]> {
+    const result: GitHubBudget[] = [];
+    for (const slot of this.slots) {
+      const tokenId = await this.slotId(slot);
+      for (const [resource, budget] of slot.budgets) {
+        result.push({
+          token_id: tokenId,
+          resource,
+          limit: budget.limit,
+          remaining: budget.remaining,
+          reset_at: new Date(budget.resetAt).toISOString(),
+        });
+      }
+    }
+    return result;
+  }
+
+  private available(slot: TokenSlot, resource: string): boolean {
+    const budget = slot.budgets.get(resource);
+    return !budget || budget.remaining > 0 || budget.resetAt <= Date.now();
+  }
+
+  private async pickSlot(resource: string, signal?: AbortSignal): Promise<TokenSlot> {
+    const ready = this.slots.filter((slot) => this.available(slot, resource));
+    if (ready.length) {
+      return ready.reduce((best, slot) => {
+        const bestRemaining = best.budgets.get(resource)?.remaining ?? Number.MAX_SAFE_INTEGER;
+        const remaining = slot.budgets.get(resource)?.remaining ?? Number.MAX_SAFE_INTEGER;
+        return remaining > bestRemaining ? slot : best;
+      });
+    }
+    const soonest = this.slots.reduce((best, slot) =>
+      (slot.budgets.get(resource)?.resetAt ?? 0) < (best.budgets.get(resource)?.resetAt ?? 0) ? slot : best
+    );
+    const waitMs = (soonest.budgets.get(resource)?.resetAt ?? Date.now()) - Date.now();
+    if (waitMs > this.maxWaitMs) {
+      throw new GitHubApiError(429, resource as GitHubResource, `rate limit exhausted for ${resource}`);
+    }
+    await sleep(Math.max(0, waitMs), signal);
+    return soonest;
+  }
+
+  private recordBudget(slot: TokenSlot, fallbackResource: string, headers: Headers) {
+    const remaining = headers.get('x-ratelimit-remaining');
+    const reset = headers.get('x-ratelimit-reset');
+    if (remaining === null || reset === null) return;
+    slot.budgets.set(headers.get('x-ratelimit-resource') ?? fallbackResource, {
+      limit: Number(headers.get('x-ratelimit-limit') ?? 0),
+      remaining: Number(remaining),
+      resetAt: Number(reset) * 1000,
+    });
+  }
+
+  /**
+   * Returns how long to back off for a throttled response, or null when the error is not a rate
+   * limit. Secondary rate limits come back as 403 without `remaining: 0`, so the body is checked too.
+   */
+  private throttleWaitMs(res: Response, body: string): number | null {
+    if (res.status !== 403 && res.status !== 429) return null;
+    const retryAfter = res.headers.get('retry-after');
+    if (retryAfter) {
+      return Number(retryAfter) * 1000;
+    }
+    if (res.headers.get('x-ratelimit-remaining') === '0') {
+      const reset = Number(res.headers.get('x-ratelimit-reset') ?? 0) * 1000;
+      return Math.max(1000, reset - Date.now());
+    }
+    if (res.status === 429 || /secondary rate limit|abuse/i.test(body)) {
+      return 60_000;
+    }
+    return null;
+  }
+
+  private async slotId(slot: TokenSlot): Promise<string> {
+    if (!slot.id) {
+      slot.id = `token-${(await hashString(slot.token ?? '')).slice(0, 8)}`;
+    }
+    return slot.id;
+  }
+}
+
+export function createGitHubClient(env: GitHubEnv, options: Omit<GitHubClientOptions, 'tokens'> = {}): GitHubClient {
+  return new GitHubClient({ baseUrl: env.GITHUB_API_URL, ...options, tokens: parseGitHubTokens(env) });
+}
@@ -0,0 +1,243 @@
+import { chunkArray, Logger, mapWithConcurrency } from './util';
+import { fetchContributorCount, fetchReadme } from './github';
+import type { GitHubRepository } from './github';
+import type { GitHubClient } from './github_client';
+import type { ReadmeCacheRow } from './db';
+
+export const GRAPHQL_BATCH_SIZE = 50;
+export const DEFAULT_README_TTL_SECONDS = 24 * 60 * 60;
+const REST_CONCURRENCY = 5;
+/** Contributor counts fetched per search; lower-ranked repos keep a stored count or none. */
+const CONTRIBUTOR_COUNT_LIMIT = 30;
+const README_PATHS = ['README.md', 'readme.md', 'README', 'README.markdown', 'README.rst'];
+
+/**
+ * `hit`: served from a cache entry younger than the TTL without asking GitHub. `revalidated`: GitHub
+ * answered 304 (REST) or returned the cached blob SHA (GraphQL). `miss`: freshly fetched content.
+ */
+export type ReadmeCacheStatus = 'hit' | 'revalidated' | 'miss';
+
+export interface HydratedRepo {
+  repo: GitHubRepository;
+  readme: string | null;
+  readmeSha: string | null;
+  etag: string | null;
+  cache: ReadmeCacheStatus;
+}
+
+export interface HydrationOptions {
+  cache?: Map<string, ReadmeCacheRow>;
+  ttlSeconds?: number;
+  logger?: Logger;
+}
+
+export interface HydrationResult {
+  via: 'graphql' | 'rest';
+  entries: HydratedRepo[];
+}
+
+const REPO_FIELDS = `
+  licenseInfo { spdxId }
+  isArchived
+  isFork
+  pushedAt
+  issues(states: OPEN) { totalCount }
+  defaultBranchRef { name target { oid } }
+`;
+
+const README_FIELDS = README_PATHS.map(
+  (path, idx) => `readme${idx}: object(expression: "HEAD:${path}") { ... on Blob { oid text } }`
+).join('\n  ');
+
+function parseTimestamp(value: string): number {
+  return Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+export function isReadmeFresh(entry: ReadmeCacheRow | undefined, ttlSeconds = DEFAULT_README_TTL_SECONDS): boolean {
+  return entry !== undefined && Date.now() - parseTimestamp(entry.fetched_at) < ttlSeconds * 1000;
+}
+
+function fromCache(repo: GitHubRepository, entry: ReadmeCacheRow): HydratedRepo {
+  return { repo, readme: entry.content, readmeSha: entry.sha, etag: entry.etag, cache: 'hit' };
+}
+
+function buildBatchQuery(
+  repos: GitHubRepository[],
+  skipReadme: Set<string>
+): { query: string; variables: Record<string, string> } {
+  const variables: Record<string, string> = {};
+  const params: string[] = [];
+  const fields: string[] = [];
+  repos.forEach((repo, idx) => {
+    const [owner, name] = repo.full_name.split('/');
+    variables[`o${idx}`] = owner;
+    variables[`n${idx}`] = name;
+    params.push(`$o${idx}: String!`, `$n${idx}: String!`);
+    const spread = skipReadme.has(repo.node_id) ? '...RepoFields' : '...RepoFields ...ReadmeFields';
+    fields.push(`r${idx}: repository(owner: $o${idx}, name: $n${idx}) { ${spread} }`);
+  });
+  return {
+    query: [
+      `query(${params.join(', ')}) {\n${fields.join('\n')}\n}`,
+      `fragment RepoFields on Repository {${REPO_FIELDS}}`,
+      `fragment ReadmeFields on Repository {\n  ${README_FIELDS}\n}`,
+    ].join('\n'),
+    variables,
+  };
+}
+
+function hydrateMetadata(repo: GitHubRepository, node: any): GitHubRepository {
+  return {
+    ...repo,
+    license_spdx: node.licenseInfo?.spdxId ?? repo.license_spdx ?? null,
+    archived: Boolean(node.isArchived),
+    fork: Boolean(node.isFork),
+    pushed_at: node.pushedAt ?? repo.pushed_at ?? null,
+    open_issues_count: node.issues?.totalCount ?? repo.open_issues_count ?? null,
+    default_branch: node.defaultBranchRef?.name ?? repo.default_branch,
+    head_sha: node.defaultBranchRef?.target?.oid ?? null,
+  };
+}
+
+async function hydrateBatchGraphQL(
+  client: GitHubClient,
+  repos: GitHubRepository[],
+  cache: Map<string, ReadmeCacheRow>,
+  ttlSeconds: number
+): Promise<HydratedRepo[]> {
+  const fresh = new Set(repos.filter((repo) => isReadmeFresh(cache.get(repo.node_id), ttlSeconds)).map((repo) => repo.node_id));
+  const { query, variables } = buildBatchQuery(repos, fresh);
+  const res = await client.request(client.graphqlUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+  });
+  const json = (await res.json()) as { data?: Record<string, any> | null; errors?: Array<{ message: string }> };
+  if (!json.data) {
+    throw new Error(`github_graphql_error ${json.errors?.map((error) => error.message).join('; ') ?? 'no data'}`);
+  }
+  return repos.map((repo, idx): HydratedRepo => {
+    const node = json.data?.[`r${idx}`];
+    const cached = cache.get(repo.node_id);
+    if (cached && fresh.has(repo.node_id)) {
+      return fromCache(node ? hydrateMetadata(repo, node) : repo, cached);
+    }
+    if (!node) {
+      return { repo, readme: null, readmeSha: null, etag: null, cache: 'miss' };
+    }
+    const blob = README_PATHS.map((_, pathIdx) => node[`readme${pathIdx}`]).find((entry) => entry && typeof entry.text === 'string');
+    return {
+      repo: hydrateMetadata(repo, node),
+      readme: blob?.text ?? null,
+      readmeSha: blob?.oid ?? null,
+      etag: cached?.etag ?? null,
+      cache: blob && cached?.sha === blob.oid ? 'revalidated' : 'miss',
+    };
+  });
+}
+
+async function hydrateRest(
+  client: GitHubClient,
+  repos: GitHubRepository[],
+  cache: Map<string, ReadmeCacheRow>,
+  ttlSeconds: number
+): Promise<HydratedRepo[]> {
+  return mapWithConcurrency(repos, REST_CONCURRENCY, async (repo): Promise<HydratedRepo> => {
+    const cached = cache.get(repo.node_id);
+    if (cached && isReadmeFresh(cached, ttlSeconds)) {
+      return fromCache(repo, cached);
+    }
+    const readme = await fetchReadme(repo.full_name, client, cached?.etag ?? undefined);
+    if (cached && readme.notModified) {
+      return { repo, readme: cached.content, readmeSha: cached.sha, etag: cached.etag, cache: 'revalidated' };
+    }
+    return { repo, readme: readme.content, readmeSha: readme.sha ?? null, etag: readme.etag ?? null, cache: 'miss' };
+  });
+}
+
+/**
+ * Fetches README text plus health metadata (license, archived/fork flags, last push, open issues,
+ * default-branch head commit) for up to GRAPHQL_BATCH_SIZE repositories per GraphQL request. GraphQL
+ * needs an authenticated token, so unauthenticated clients and failed GraphQL batches fall back to
+ * per-repo REST README requests with bounded concurrency. READMEs in `cache` younger than the TTL
+ * are not fetched again; older entries are revalidated by ETag (REST) or blob SHA (GraphQL).
+ */
+export async function hydrateRepos(
+  client: GitHubClient,
+  repos: GitHubRepository[],
+  options: HydrationOptions = {}
+): Promise<HydrationResult> {
+  const cache = options.cache ?? new Map<string, ReadmeCacheRow>();
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_README_TTL_SECONDS;
+  if (!repos.length) {
+    return { via: 'graphql', entries: [] };
+  }
+  if (!client.authenticated) {
+    return { via: 'rest', entries: await hydrateRest(client, repos, cache, ttlSeconds) };
+  }
+  const entries: HydratedRepo[] = [];
+  let via: HydrationResult['via'] = 'graphql';
+  for (const batch of chunkArray(repos, GRAPHQL_BATCH_SIZE)) {
+    try {
+      entries.push(...(await hydrateBatchGraphQL(client, batch, cache, ttlSeconds)));
+    } catch (err) {
+      options.logger?.warn('graphql_hydration_fallback', {
+        error: err instanceof Error ? err.message : String(err),
+        batch_size: batch.length,
+      });
+      via = 'rest';
+      entries.push(...(await hydrateRest(client, batch, cache, ttlSeconds)));
+    }
+  }
+  return { via, entries };
+}
+
+/**
+ * README hydration for forges without GraphQL or conditional README requests: one raw-file request
+ * per repo not already fresh in the cache.
+ */
+export async function hydrateReadmes(
+  repos: GitHubRepository[],
+  fetchText: (repo: GitHubRepository) => Promise<string | null>,
+  options: HydrationOptions = {}
+): Promise<HydrationResult> {
+  const cache = options.cache ?? new Map<string, ReadmeCacheRow>();
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_README_TTL_SECONDS;
+  const entries = await mapWithConcurrency(repos, REST_CONCURRENCY, async (repo): Promise<HydratedRepo> => {
+    const cached = cache.get(repo.node_id);
+    if (cached && isReadmeFresh(cached, ttlSeconds)) {
+      return fromCache(repo, cached);
+    }
+    const readme = await fetchText(repo);
+    const unchanged = cached !== undefined && readme !== null && readme === cached.content;
+    return { repo, readme, readmeSha: null, etag: null, cache: unchanged ? 'revalidated' : 'miss' };
+  });
+  return { via: 'rest', entries };
+}
+
+/**
+ * Neither search nor GraphQL exposes a contributor count, so it costs one REST request per repo.
+ * Stored counts are reused until the default branch head moves, and only the first
+ * `CONTRIBUTOR_COUNT_LIMIT` repos (in fused rank order) are fetched; the rest are null.
+ */
+export async function countContributors(
+  client: GitHubClient,
+  repos: GitHubRepository[],
+  known: Map<string, { head_sha: string | null; contributors_count: number }>
+): Promise<Map<string, number | null>> {
+  const result = new Map<string, number | null>();
+  const pending: GitHubRepository[] = [];
+  for (const repo of repos) {
+    const stored = known.get(repo.node_id);
+    if (stored && (!repo.head_sha || stored.head_sha === repo.head_sha)) {
+      result.set(repo.node_id, stored.contributors_count);
+    } else {
+      pending.push(repo);
+    }
+  }
+  const fetched = pending.slice(0, CONTRIBUTOR_COUNT_LIMIT);
+  const counts = await mapWithConcurrency(fetched, REST_CONCURRENCY, (repo) => fetchContributorCount(repo.full_name, client));
+  fetched.forEach((repo, idx) => result.set(repo.node_id, counts[idx]));
+  for (const repo of pending.slice(CONTRIBUTOR_COUNT_LIMIT)) result.set(repo.node_id, null);
+  return result;
+}
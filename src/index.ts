@@ -1,6 +1,11 @@
 import { createApiRouter, ApiEnv } from './routes';
 import { handleSessionWebSocket } from './ws';
 import { handleMcpRequest } from './mcp';
+import { handleSearchJobBatch } from './jobs';
+import type { SearchJobMessage } from './jobs';
+import { runDueSavedSearches } from './saved_searches';
+import { retryWebhookDeliveries } from './webhooks';
+import { Logger } from './util';
 
 const api = createApiRouter();
 
@@ -8,16 +13,25 @@ export default {
   async fetch(request: Request, env: ApiEnv, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     if (url.pathname.startsWith('/ws/')) {
-      return handleSessionWebSocket(request, env);
+      return handleSessionWebSocket(request, env, ctx);
     }
     if (url.pathname === '/mcp') {
-      return handleMcpRequest(request, env);
+      return handleMcpRequest(request, env, ctx);
     }
     if (url.pathname.startsWith('/api/')) {
       return api.fetch(request, env, ctx);
     }
     return env.ASSETS.fetch(request);
   },
+
+  async queue(batch: MessageBatch<SearchJobMessage>, env: ApiEnv): Promise<void> {
+    await handleSearchJobBatch(batch, env);
+  },
+
+  async scheduled(controller: ScheduledController, env: ApiEnv, ctx: ExecutionContext): Promise<void> {
+    const logger = new Logger({ cron: controller.cron });
+    ctx.waitUntil(Promise.all([runDueSavedSearches(env, ctx, logger), retryWebhookDeliveries(env, logger)]));
+  },
 };
 
 export { RateLimiter } from './ratelimit';
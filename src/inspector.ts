@@ -0,0 +1,239 @@
+import { chunkArray, Logger, mapWithConcurrency } from './util';
+import type { GitHubRepository } from './github';
+import type { GitHubClient } from './github_client';
+import type { RepoFacetsRow } from './db';
+
+/** Where inspected files come from: GraphQL batches when a GitHub client is available, else per-file REST. */
+export interface RepoFileSource {
+  graphqlClient?: GitHubClient;
+  fetchFile(repo: GitHubRepository, path: string): Promise<string | null>;
+}
+
+export const WORKER_BINDINGS = ['d1', 'kv', 'r2', 'durable_objects', 'queues', 'ai', 'vectorize'] as const;
+export type WorkerBinding = (typeof WORKER_BINDINGS)[number];
+
+export interface RepoFacets {
+  config_files: string[];
+  bindings: WorkerBinding[];
+  compatibility_date: string | null;
+  frameworks: string[];
+  test_tools: string[];
+}
+
+const INSPECTED_FILES = ['wrangler.toml', 'wrangler.jsonc', 'wrangler.json', 'package.json'];
+const GRAPHQL_BATCH_SIZE = 50;
+const REST_CONCURRENCY = 5;
+/** REST inspection costs one request per file, so only the top candidates are inspected. */
+const REST_INSPECTION_LIMIT = 20;
+/** GitHub's hourly core budget without a token, assumed until a response reports the real one. */
+const ANONYMOUS_CORE_LIMIT = 60;
+
+const BINDING_KEYS: Record<string, WorkerBinding> = {
+  d1_databases: 'd1',
+  kv_namespaces: 'kv',
+  r2_buckets: 'r2',
+  durable_objects: 'durable_objects',
+  queues: 'queues',
+  ai: 'ai',
+  vectorize: 'vectorize',
+};
+
+const FRAMEWORK_PACKAGES: Record<string, string> = {
+  hono: 'hono',
+  'itty-router': 'itty-router',
+  chanfana: 'chanfana',
+  worktop: 'worktop',
+  '@remix-run/cloudflare': 'remix',
+  astro: 'astro',
+  '@sveltejs/kit': 'sveltekit',
+  '@cloudflare/next-on-pages': 'nextjs',
+  '@opennextjs/cloudflare': 'nextjs',
+};
+
+const TEST_PACKAGES: Record<string, string> = {
+  vitest: 'vitest',
+  '@cloudflare/vitest-pool-workers': 'vitest-pool-workers',
+  jest: 'jest',
+  miniflare: 'miniflare',
+  '@playwright/test': 'playwright',
+  mocha: 'mocha',
+  ava: 'ava',
+};
+
+function stripJsonComments(text: string): string {
+  return text
+    .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, str) => str ?? '')
+    .replace(/,(\s*[}\]])/g, '$1');
+}
+
+function collectBindingsFromObject(config: Record<string, any>, bindings: Set<WorkerBinding>) {
+  for (const [key, binding] of Object.entries(BINDING_KEYS)) {
+    if (config[key]) bindings.add(binding);
+  }
+  for (const envConfig of Object.values(config.env ?? {})) {
+    if (envConfig && typeof envConfig === 'object') {
+      collectBindingsFromObject(envConfig as Record<string, any>, bindings);
+    }
+  }
+}
+
+/**
+ * Extracts Worker facets from wrangler config and package.json contents. TOML is matched by section
+ * headers (including `[env.<name>.*]` overrides) rather than parsed, which is enough to tell which
+ * bindings a project declares.
+ */
+export function extractFacets(files: Record<string, string | null>): RepoFacets {
+  const bindings = new Set<WorkerBinding>();
+  let compatibilityDate: string | null = null;
+
+  const toml = files['wrangler.toml'];
+  if (toml) {
+    const sectionPattern = /^\s*\[\[?\s*(?:env\.[\w-]+\.)?([\w]+)/gm;
+    for (const match of toml.matchAll(sectionPattern)) {
+      const binding = BINDING_KEYS[match[1]];
+      if (binding) bindings.add(binding);
+    }
+    if (/^\s*ai\s*=\s*\{/m.test(toml)) bindings.add('ai');
+    compatibilityDate = toml.match(/^\s*compatibility_date\s*=\s*["']([^"']+)["']/m)?.[1] ?? null;
+  }
+
+  const jsonConfig = files['wrangler.jsonc'] ?? files['wrangler.json'];
+  if (jsonConfig) {
+    try {
+      const config = JSON.parse(stripJsonComments(jsonConfig)) as Record<string, any>;
+      collectBindingsFromObject(config, bindings);
+      compatibilityDate = compatibilityDate ?? (typeof config.compatibility_date === 'string' ? config.compatibility_date : null);
+    } catch {
+      for (const [key, binding] of Object.entries(BINDING_KEYS)) {
+        if (new RegExp(`"${key}"\\s*:`).test(jsonConfig)) bindings.add(binding);
+      }
+    }
+  }
+
+  const frameworks = new Set<string>();
+  const testTools = new Set<string>();
+  const pkgText = files['package.json'];
+  if (pkgText) {
+    try {
+      const pkg = JSON.parse(pkgText) as Record<string, any>;
+      const deps = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies };
+      for (const name of Object.keys(deps)) {
+        if (FRAMEWORK_PACKAGES[name]) frameworks.add(FRAMEWORK_PACKAGES[name]);
+        if (TEST_PACKAGES[name]) testTools.add(TEST_PACKAGES[name]);
+      }
+    } catch {
+      // Malformed package.json: keep whatever the wrangler config told us.
+    }
+  }
+
+  return {
+    config_files: INSPECTED_FILES.filter((file) => files[file] !== null && files[file] !== undefined),
+    bindings: WORKER_BINDINGS.filter((binding) => bindings.has(binding)),
+    compatibility_date: compatibilityDate,
+    frameworks: [...frameworks].sort(),
+    test_tools: [...testTools].sort(),
+  };
+}
+
+export function serializeFacets(row: RepoFacetsRow): RepoFacets {
+  return {
+    config_files: JSON.parse(row.config_files),
+    bindings: JSON.parse(row.bindings),
+    compatibility_date: row.compatibility_date,
+    frameworks: JSON.parse(row.frameworks),
+    test_tools: JSON.parse(row.test_tools),
+  };
+}
+
+async function fetchFilesGraphQL(client: GitHubClient, repos: GitHubRepository[]): Promise<Array<Record<string, string | null>>> {
+  const variables: Record<string, string> = {};
+  const params: string[] = [];
+  const fields: string[] = [];
+  repos.forEach((repo, idx) => {
+    const [owner, name] = repo.full_name.split('/');
+    variables[`o${idx}`] = owner;
+    variables[`n${idx}`] = name;
+    params.push(`$o${idx}: String!`, `$n${idx}: String!`);
+    fields.push(`r${idx}: repository(owner: $o${idx}, name: $n${idx}) { ...InspectedFiles }`);
+  });
+  const fileFields = INSPECTED_FILES.map((file, idx) => `f${idx}: object(expression: "HEAD:${file}") { ... on Blob { text } }`);
+  const query = [
+    `query(${params.join(', ')}) {\n${fields.join('\n')}\n}`,
+    `fragment InspectedFiles on Repository {\n  ${fileFields.join('\n  ')}\n}`,
+  ].join('\n');
+  const res = await client.request(client.graphqlUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+  });
+  const json = (await res.json()) as { data?: Record<string, any> | null; errors?: Array<{ message: string }> };
+  if (!json.data) {
+    throw new Error(`github_graphql_error ${json.errors?.map((error) => error.message).join('; ') ?? 'no data'}`);
+  }
+  return repos.map((_, idx) => {
+    const node = json.data?.[`r${idx}`];
+    return Object.fromEntries(INSPECTED_FILES.map((file, fileIdx) => [file, node?.[`f${fileIdx}`]?.text ?? null]));
+  });
+}
+
+async function fetchFilesRest(source: RepoFileSource, repo: GitHubRepository): Promise<Record<string, string | null>> {
+  const files: Record<string, string | null> = {};
+  for (const file of INSPECTED_FILES) {
+    files[file] = await source.fetchFile(repo, file);
+  }
+  return files;
+}
+
+/**
+ * Fetches wrangler config and package.json for each candidate and extracts its facets, batching
+ * through GraphQL like the README hydrator. Repos whose stored facets were taken at the current
+ * default-branch head (`known`) are skipped.
+ */
+export async function inspectRepos(
+  source: RepoFileSource,
+  repos: GitHubRepository[],
+  options: { known?: Map<string, RepoFacetsRow>; logger?: Logger } = {}
+): Promise<Map<string, RepoFacets>> {
+  const known = options.known ?? new Map<string, RepoFacetsRow>();
+  const result = new Map<string, RepoFacets>();
+  const pending: GitHubRepository[] = [];
+  for (const repo of repos) {
+    const stored = known.get(repo.node_id);
+    if (stored && repo.head_sha && stored.head_sha === repo.head_sha) {
+      result.set(repo.node_id, serializeFacets(stored));
+    } else {
+      pending.push(repo);
+    }
+  }
+
+  const restFallback = async (batch: GitHubRepository[]) => {
+    const files = await mapWithConcurrency(batch, REST_CONCURRENCY, (repo) => fetchFilesRest(source, repo));
+    batch.forEach((repo, idx) => result.set(repo.node_id, extractFacets(files[idx])));
+  };
+
+  const client = source.graphqlClient;
+  if (!client?.authenticated) {
+    // Without a token the core budget is shared with README fetches; inspect only what it still covers.
+    const remaining = client ? client.remaining('core') ?? ANONYMOUS_CORE_LIMIT : null;
+    const limit =
+      remaining === null ? REST_INSPECTION_LIMIT : Math.min(REST_INSPECTION_LIMIT, Math.floor(remaining / INSPECTED_FILES.length));
+    if (limit < pending.length) {
+      options.logger?.info('rest_inspection_limited', { pending: pending.length, inspected: limit, core_remaining: remaining });
+    }
+    await restFallback(pending.slice(0, limit));
+    return result;
+  }
+  for (const batch of chunkArray(pending, GRAPHQL_BATCH_SIZE)) {
+    try {
+      const files = await fetchFilesGraphQL(client, batch);
+      batch.forEach((repo, idx) => result.set(repo.node_id, extractFacets(files[idx])));
+    } catch (err) {
+      options.logger?.warn('graphql_inspection_fallback', {
+        error: err instanceof Error ? err.message : String(err),
+        batch_size: batch.length,
+      });
+      await restFallback(batch.slice(0, REST_INSPECTION_LIMIT));
+    }
+  }
+  return result;
+}
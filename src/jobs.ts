@@ -0,0 +1,174 @@
+import { Database } from './db';
+import type { SearchJobRow, SearchJobStatus } from './db';
+import { Logger } from './util';
+import { runSearchLifecycle, SearchLifecycleResult, SearchRetryPolicy } from './search';
+import type { SearchExecutionContext } from './search';
+import type { JudgeEnsemble } from './judge';
+import type { SearchMode } from './planner';
+import type { ProviderKind } from './providers';
+import { completeSavedSearchRun } from './saved_searches';
+
+export interface SearchJobParams {
+  query: string;
+  profile_id?: string;
+  mode?: SearchMode;
+  provider?: ProviderKind;
+  base_keywords?: boolean;
+  max_results?: number;
+  search_within_sessions?: string[];
+  include_github?: boolean;
+  retry_policy?: SearchRetryPolicy;
+  judge_ensemble?: JudgeEnsemble;
+}
+
+export interface SearchJobMessage {
+  job_id: string;
+}
+
+export interface JobsEnv extends SearchExecutionContext {
+  DB: D1Database;
+  SEARCH_QUEUE?: Queue<SearchJobMessage>;
+}
+
+export interface SearchJob {
+  job_id: string;
+  session_id: string;
+  status: SearchJobStatus;
+  query: string;
+  params: SearchJobParams;
+  attempt_id: number | null;
+  result_group: number | null;
+  attempt_ids: number[];
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export function serializeJob(row: SearchJobRow): SearchJob {
+  return {
+    job_id: row.job_id,
+    session_id: row.session_id,
+    status: row.status,
+    query: row.query,
+    params: JSON.parse(row.params),
+    attempt_id: row.attempt_id,
+    result_group: row.result_group,
+    attempt_ids: row.attempt_ids ? JSON.parse(row.attempt_ids) : [],
+    error: row.error,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+  };
+}
+
+/**
+ * Hands a queued job to the SEARCH_QUEUE consumer when the binding exists, otherwise runs it in
+ * the background of the current request via `waitUntil` (local dev and single-Worker deploys).
+ */
+export async function enqueueSearchJob(env: JobsEnv, ctx: ExecutionContext, jobId: string, logger: Logger): Promise<void> {
+  if (env.SEARCH_QUEUE) {
+    await env.SEARCH_QUEUE.send({ job_id: jobId });
+    logger.info('search_job_enqueued', { job_id: jobId, transport: 'queue' });
+    return;
+  }
+  const db = new Database(env.DB);
+  ctx.waitUntil(processSearchJob(env, db, jobId, logger));
+  logger.info('search_job_enqueued', { job_id: jobId, transport: 'wait_until' });
+}
+
+export async function runSearchJob(
+  env: SearchExecutionContext,
+  db: Database,
+  jobId: string,
+  logger: Logger,
+  waitUntil?: ExecutionContext['waitUntil']
+): Promise<SearchLifecycleResult | null> {
+  const job = await db.getSearchJob(jobId);
+  if (!job) {
+    logger.warn('search_job_missing', { job_id: jobId });
+    return null;
+  }
+  // Queue delivery is at-least-once: only the delivery that claims the queued job runs it.
+  if (job.status !== 'queued' || !(await db.claimSearchJob(jobId))) {
+    logger.warn('search_job_already_started', { job_id: jobId, status: job.status });
+    return null;
+  }
+  const jobLogger = logger.withContext({ job_id: jobId, session_id: job.session_id });
+  const session = await db.getSession(job.session_id);
+  if (!session) {
+    await db.updateSearchJobStatus(jobId, 'failed', { error: 'session_not_found' });
+    if (job.attempt_id) await db.finishSearchAttempt(job.attempt_id, 'failed');
+    return null;
+  }
+  const params = JSON.parse(job.params) as SearchJobParams;
+  const reservedAttempt = job.attempt_id ? await db.getSearchAttempt(job.attempt_id) : null;
+  const attemptIds: number[] = [];
+
+  jobLogger.info('search_job_started');
+  const start = Date.now();
+  try {
+    const lifecycle = await runSearchLifecycle(env, db, {
+      sessionId: job.session_id,
+      query: params.query,
+      profileId: params.profile_id ?? session.profile_id,
+      mode: params.mode,
+      provider: params.provider,
+      naturalLanguageRequest: session.natural_language_request,
+      baseKeywords: params.base_keywords,
+      maxResults: params.max_results,
+      searchWithinSessions: params.search_within_sessions,
+      includeGitHub: params.include_github,
+      retryPolicy: params.retry_policy,
+      judgeEnsemble: params.judge_ensemble,
+      reservedAttempt: reservedAttempt ?? undefined,
+      logger: jobLogger,
+      waitUntil,
+      callbacks: {
+        onAttemptStart: async ({ attemptId }) => {
+          attemptIds.push(attemptId);
+          await db.updateSearchJobStatus(jobId, 'running', { attemptIds });
+        },
+        onJudgeStart: async () => {
+          await db.updateSearchJobStatus(jobId, 'judging');
+        },
+        onRefinedSearch: async () => {
+          await db.updateSearchJobStatus(jobId, 'refining');
+        },
+      },
+    });
+    await db.updateSearchJobStatus(jobId, lifecycle.cancelled ? 'cancelled' : 'done', { attemptIds });
+    jobLogger.info('search_job_finished', {
+      latency: Date.now() - start,
+      attempts: lifecycle.attempts.length,
+      cancelled: lifecycle.cancelled,
+      total_cost: lifecycle.totalCost,
+      budget_exhausted: lifecycle.budgetExhausted,
+    });
+    return lifecycle;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await db.updateSearchJobStatus(jobId, 'failed', { attemptIds, error: message });
+    // Profile, rubric or prior-corpus lookups can fail before the reserved attempt has started.
+    if (job.attempt_id) await db.finishSearchAttempt(job.attempt_id, 'failed');
+    jobLogger.error('search_job_failed', { latency: Date.now() - start, error: message });
+    return null;
+  }
+}
+
+/** Runs a queued job, then finishes the saved search run it was started for, if any. */
+async function processSearchJob(env: SearchExecutionContext, db: Database, jobId: string, logger: Logger): Promise<void> {
+  const lifecycle = await runSearchJob(env, db, jobId, logger);
+  await completeSavedSearchRun(db, jobId, lifecycle, logger);
+}
+
+export async function handleSearchJobBatch(batch: MessageBatch<SearchJobMessage>, env: JobsEnv): Promise<void> {
+  const db = new Database(env.DB);
+  const logger = new Logger({ queue: batch.queue });
+  for (const message of batch.messages) {
+    await processSearchJob(env, db, message.body.job_id, logger);
+    message.ack();
+  }
+}
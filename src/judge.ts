@@ -1,8 +1,28 @@
 import { z } from 'zod';
+import { chatCompletion, resolveLlm } from './llm';
+import type { LlmCallSink, LlmJsonSchema, LlmProviderKind, LlmSelection } from './llm';
+import type { RepoFacets } from './inspector';
+import type { ResultScoreStatus } from './db';
+import { mapWithConcurrency } from './util';
+import { describeCriteria, weightedCriteriaScore } from './rubrics';
+import { repairJudgeOutput } from './judge_repair';
+import type { RubricCriterion } from './rubrics';
 
 export interface JudgeEnv {
+  /** Default provider: `openai` (default), `anthropic`, `workers_ai`, `openai_compatible` or `stub`. */
+  LLM_PROVIDER?: string;
   OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  /** Base URL of an OpenAI-compatible API (gateway, vLLM, Ollama) for `openai_compatible`. */
+  LLM_BASE_URL?: string;
+  LLM_API_KEY?: string;
+  AI?: Ai;
+  /** Model for the default provider; sessions and profiles can pick another provider and model. */
   JUDGE_MODEL?: string;
+  LLM_TIMEOUT_MS?: string;
+  LLM_MAX_RETRIES?: string;
+  /** JSON price overrides in USD per million tokens, e.g. `{"gpt-4o-mini":{"input":0.15,"output":0.6}}`. */
+  LLM_PRICES?: string;
 }
 
 const JudgeResponseSchema = z.object({
@@ -14,13 +34,74 @@ const JudgeResponseSchema = z.object({
         full_name: z.string(),
         score: z.number().min(0).max(1),
         note: z.string().max(240),
+        criteria: z.record(z.string(), z.number().min(0).max(1)).optional(),
       })
-    )
-    .nonempty(),
+    ),
 });
 
 export type JudgeResponse = z.infer<typeof JudgeResponseSchema>;
 
+/**
+ * How the scores were produced: `llm` valid as returned, `repaired` normalised locally, `reask`
+ * corrected by the model after being sent the validation errors, `heuristic` the lexical fallback.
+ */
+export type JudgePath = 'llm' | 'repaired' | 'reask' | 'heuristic';
+
+const JUDGE_PATHS: JudgePath[] = ['llm', 'repaired', 'reask', 'heuristic'];
+
+/** The least direct path, which is the one an attempt reports when its chunks or judges differ. */
+export function worstJudgePath(paths: JudgePath[]): JudgePath {
+  return paths.reduce<JudgePath>((worst, path) => (JUDGE_PATHS.indexOf(path) > JUDGE_PATHS.indexOf(worst) ? path : worst), 'llm');
+}
+
+/** The judge verdict plus the model that produced it, as reported by the provider. */
+export type JudgeResult = JudgeResponse & {
+  provider: LlmProviderKind;
+  model: string;
+  model_version: string | null;
+  path: JudgePath;
+  /** What the repair step changed or dropped. */
+  repairs: string[];
+};
+
+/**
+ * With rubric criteria, every per_repo item must also carry a 0–1 sub-score per criterion key.
+ * Without candidates per_repo may be empty; that call only asks for recommendations.
+ */
+function buildJudgeJsonSchema(criteria?: RubricCriterion[], hasRepos = true): LlmJsonSchema {
+  const unitScore = { type: 'number', minimum: 0, maximum: 1 };
+  const item = {
+    type: 'object',
+    properties: {
+      full_name: { type: 'string' },
+      score: unitScore,
+      note: { type: 'string', maxLength: 240 },
+      ...(criteria?.length
+        ? {
+            criteria: {
+              type: 'object',
+              properties: Object.fromEntries(criteria.map((criterion) => [criterion.key, unitScore])),
+              required: criteria.map((criterion) => criterion.key),
+            },
+          }
+        : {}),
+    },
+    required: ['full_name', 'score', 'note', ...(criteria?.length ? ['criteria'] : [])],
+  };
+  return {
+    name: 'judge_review',
+    schema: {
+      type: 'object',
+      properties: {
+        overall_findings: { type: 'string', maxLength: 500 },
+        recommendations: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5 },
+        per_repo: { type: 'array', minItems: hasRepos ? 1 : 0, items: item },
+      },
+      required: ['overall_findings', 'recommendations', 'per_repo'],
+    },
+  };
+}
+
 export interface JudgeRequestRepo {
   full_name: string;
   html_url: string;
@@ -29,6 +110,8 @@ export interface JudgeRequestRepo {
   language: string | null;
   topics: string[];
   readme_excerpt: string | null;
+  code_matches?: Array<{ path: string; fragments: string[] }>;
+  facets?: RepoFacets;
 }
 
 export interface JudgeRequest {
@@ -36,53 +119,414 @@ export interface JudgeRequest {
   repos: JudgeRequestRepo[];
 }
 
-const SYSTEM_PROMPT = `You are an expert evaluator tasked with reviewing GitHub repositories for suitability in fulfilling a user request about Cloudflare Workers. Return a JSON object with keys overall_findings, recommendations (boolean GitHub search queries), and per_repo (scored findings). Use rubric: 0.0 off-topic, 0.3 adjacent, 0.6 useful, 0.8 strong, 0.9+ excellent.`;
+export interface JudgeOptions {
+  rubric?: string;
+  /** Weighted rubric criteria; each repo's score becomes the weighted mean of its criterion scores. */
+  criteria?: RubricCriterion[];
+  llm?: LlmSelection | null;
+  signal?: AbortSignal;
+  onLlmCall?: LlmCallSink;
+}
+
+/** Repos per judge call, and judge calls in flight per attempt. */
+const JUDGE_CHUNK_SIZE = 20;
+const JUDGE_CONCURRENCY = 3;
+
+/** Ensemble variance at or above which a repo is flagged for review: a 0.2 standard deviation. */
+const DEFAULT_DISAGREEMENT_THRESHOLD = 0.04;
+
+export type EnsembleAggregate = 'mean' | 'median' | 'weighted';
+
+export interface EnsembleJudgeConfig {
+  /** Defaults to the session or profile LLM. */
+  llm?: LlmSelection;
+  /** Defaults to the profile rubric. */
+  rubric?: string;
+  /** Used by the `weighted` aggregate; defaults to 1. */
+  weight?: number;
+}
+
+export interface JudgeEnsemble {
+  judges: EnsembleJudgeConfig[];
+  aggregate?: EnsembleAggregate;
+  disagreement_threshold?: number;
+}
+
+export interface JudgedRepo {
+  full_name: string;
+  score: number;
+  note: string;
+  /** Ensemble only: population variance of the judges' scores and each judge's score. */
+  variance?: number;
+  judge_scores?: Array<{ judge: number; model: string; score: number }>;
+  needs_review?: boolean;
+  /** Rubric only: per-criterion sub-scores (averaged across ensemble judges). */
+  criteria?: Record<string, number>;
+}
+
+/** Verdict over every chunk. `status` is keyed by full_name; a failed chunk's repos are `failed`, repos its verdict omitted are `skipped`. */
+export type ChunkedJudgeResult = Omit<JudgeResult, 'per_repo'> & {
+  per_repo: JudgedRepo[];
+  status: Map<string, ResultScoreStatus>;
+  chunks: number;
+  errors: string[];
+  /** Ensemble only: how the scores were combined and which judges took part. */
+  ensemble?: {
+    aggregate: EnsembleAggregate;
+    disagreement_threshold: number;
+    judges: Array<{ judge: number; provider: LlmProviderKind; model: string; error: string | null }>;
+  };
+};
+
+export interface ScoreStatistics {
+  median: number;
+  top5Mean: number;
+  /** Ensemble only: mean and max per-repo variance, and how many repos need review. */
+  ensemble?: { meanVariance: number; maxVariance: number; flagged: number };
+}
+
+const DEFAULT_RUBRIC = 'Use rubric: 0.0 off-topic, 0.3 adjacent, 0.6 useful, 0.8 strong, 0.9+ excellent.';
+
+function buildSystemPrompt(rubric: string, criteria?: RubricCriterion[], hasRepos = true): string {
+  const prompt = `You are an expert evaluator tasked with reviewing GitHub repositories for suitability in fulfilling a user request. Return a JSON object with keys overall_findings, recommendations (boolean GitHub search queries), and per_repo (scored findings). ${rubric}`;
+  if (!hasRepos) {
+    return `${prompt} The search found no repositories: return per_repo as an empty array and suggest recommendations that are likely to find some.`;
+  }
+  if (!criteria?.length) return prompt;
+  return `${prompt} Also score every repository from 0 to 1 on each of these weighted criteria, keyed by criterion in per_repo[].criteria, and set score to their weighted mean: ${describeCriteria(criteria)}.`;
+}
 
-export async function runJudge(env: JudgeEnv, payload: JudgeRequest): Promise<JudgeResponse> {
-  const apiKey = env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('missing_openai_api_key');
+function searchTerms(text: string): string[] {
+  return [...new Set(text.toLowerCase().match(/[a-z0-9][a-z0-9_-]{2,}/g) ?? [])];
+}
+
+/**
+ * Stub-provider verdict and last-resort fallback: the share of request terms found in each repo's
+ * name, description, topics and README, and likewise the share of each criterion's description terms.
+ */
+function lexicalJudge(payload: JudgeRequest, criteria?: RubricCriterion[]): JudgeResponse {
+  const terms = searchTerms(payload.natural_language_request);
+  const overlap = (words: string[], haystack: string) =>
+    words.length ? Math.round((words.filter((word) => haystack.includes(word)).length / words.length) * 100) / 100 : 0;
+  const perRepo = payload.repos.map((repo) => {
+    const haystack = [repo.full_name, repo.description ?? '', repo.topics.join(' '), repo.readme_excerpt ?? ''].join(' ').toLowerCase();
+    const hits = terms.filter((term) => haystack.includes(term)).length;
+    const item = { full_name: repo.full_name, score: overlap(terms, haystack), note: `Matches ${hits} of ${terms.length} request terms.` };
+    if (!criteria?.length) return item;
+    const scores = Object.fromEntries(criteria.map((criterion) => [criterion.key, overlap(searchTerms(criterion.description), haystack)]));
+    return { ...item, criteria: scores };
+  });
+  return {
+    overall_findings: 'Scored by request term overlap (stub provider).',
+    recommendations: [terms.slice(0, 4).join(' ') || payload.natural_language_request.slice(0, 100)],
+    per_repo: perRepo,
+  };
+}
+
+/** Parses and validates a judge reply, repairing what can be repaired locally. */
+function validateJudgeOutput(
+  content: string | null,
+  payload: JudgeRequest,
+  criteria?: RubricCriterion[]
+): { response: JudgeResponse; fixes: string[] } | { errors: string[] } {
+  if (!content) {
+    return { errors: ['the response was empty'] };
+  }
+  const trimmed = content.trim();
+  const unfenced = trimmed.replace(/^```(?:json)?\s*|\s*```$/g, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(unfenced);
+  } catch {
+    return { errors: ['the response is not valid JSON'] };
+  }
+  const repair = repairJudgeOutput(raw, payload.repos, criteria);
+  if (!repair.output) {
+    return { errors: [...repair.errors, ...repair.fixes] };
+  }
+  const parsed = JudgeResponseSchema.safeParse(repair.output);
+  if (!parsed.success) {
+    return { errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`) };
   }
-  const model = env.JUDGE_MODEL ?? 'gpt-4o-mini';
+  return { response: parsed.data, fixes: [...(unfenced === trimmed ? [] : ['removed a code fence']), ...repair.fixes] };
+}
 
+/**
+ * Asks the judge once and validates the reply. Output that misses the schema is repaired locally
+ * when possible, otherwise the model is re-asked once with the validation errors; if that fails too
+ * the lexical heuristic scores the chunk. Provider errors (after the client's retries) still throw.
+ */
+export async function runJudge(env: JudgeEnv, payload: JudgeRequest, options: JudgeOptions = {}): Promise<JudgeResult> {
   const messages = [
-    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'system', content: buildSystemPrompt(options.rubric ?? DEFAULT_RUBRIC, options.criteria, payload.repos.length > 0) },
     {
       role: 'user',
       content: JSON.stringify(payload, null, 2),
     },
   ];
+  const request = {
+    purpose: 'judge' as const,
+    errorCode: 'judge_api_error',
+    schema: buildJudgeJsonSchema(options.criteria, payload.repos.length > 0),
+    llm: options.llm,
+    stub: () => lexicalJudge(payload, options.criteria),
+    signal: options.signal,
+    onCall: options.onLlmCall,
+  };
 
-  const res = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature: 0,
-      response_format: { type: 'json_object' },
-    }),
+  let completion = await chatCompletion(env, { ...request, messages });
+  let outcome = validateJudgeOutput(completion.content, payload, options.criteria);
+  let path: JudgePath = 'errors' in outcome ? 'reask' : outcome.fixes.length ? 'repaired' : 'llm';
+  if ('errors' in outcome) {
+    const correction = `Your JSON did not match the required schema: ${outcome.errors.join('; ')}. Reply with the corrected JSON object only, scoring only the repositories listed above.`;
+    try {
+      completion = await chatCompletion(env, {
+        ...request,
+        messages: [...messages, { role: 'assistant', content: completion.content ?? '' }, { role: 'user', content: correction }],
+      });
+      outcome = validateJudgeOutput(completion.content, payload, options.criteria);
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      outcome = { errors: [err instanceof Error ? err.message : String(err)] };
+    }
+  }
+  const repairs = 'errors' in outcome ? outcome.errors : outcome.fixes;
+  let response: JudgeResponse;
+  if ('errors' in outcome) {
+    path = 'heuristic';
+    response = lexicalJudge(payload, options.criteria);
+  } else {
+    response = outcome.response;
+  }
+
+  const criteria = options.criteria;
+  if (criteria?.length) {
+    for (const item of response.per_repo) {
+      item.score = weightedCriteriaScore(criteria, item.criteria ?? {});
+    }
+  }
+  return {
+    ...response,
+    provider: completion.provider,
+    model: completion.model,
+    model_version: completion.modelVersion,
+    path,
+    repairs,
+  };
+}
+
+/**
+ * Judges every repo in chunks of `JUDGE_CHUNK_SIZE` with bounded concurrency. Chunk verdicts are
+ * ranked by top-5 mean: findings are kept in that order while they fit, and recommendations are
+ * taken round-robin across chunks, deduplicated. Fails only when every chunk failed or on abort.
+ */
+export async function runChunkedJudge(env: JudgeEnv, payload: JudgeRequest, options: JudgeOptions = {}): Promise<ChunkedJudgeResult> {
+  // Without candidates the judge still runs once on an empty chunk: the refinement loop needs its
+  // recommendations to try another query, and per_repo is allowed to be empty for that call.
+  const chunks: JudgeRequestRepo[][] = payload.repos.length ? [] : [payload.repos];
+  for (let start = 0; start < payload.repos.length; start += JUDGE_CHUNK_SIZE) {
+    chunks.push(payload.repos.slice(start, start + JUDGE_CHUNK_SIZE));
+  }
+  const outcomes = await mapWithConcurrency(chunks, JUDGE_CONCURRENCY, async (repos) => {
+    try {
+      return { repos, verdict: await runJudge(env, { ...payload, repos }, options) };
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      return { repos, error: err };
+    }
   });
-  if (!res.ok) {
-    throw new Error(`judge_api_error ${res.status}`);
+
+  const status = new Map<string, ResultScoreStatus>();
+  const errors: string[] = [];
+  const verdicts: Array<{ verdict: JudgeResult; perRepo: ChunkedJudgeResult['per_repo'] }> = [];
+  for (const outcome of outcomes) {
+    if (!outcome.verdict) {
+      errors.push(outcome.error instanceof Error ? outcome.error.message : String(outcome.error));
+      for (const repo of outcome.repos) status.set(repo.full_name, 'failed');
+      continue;
+    }
+    const names = new Set(outcome.repos.map((repo) => repo.full_name));
+    const perRepo = outcome.verdict.per_repo.filter((item) => names.delete(item.full_name));
+    for (const item of perRepo) status.set(item.full_name, 'scored');
+    for (const name of names) status.set(name, 'skipped');
+    verdicts.push({ verdict: outcome.verdict, perRepo });
   }
-  const json = (await res.json()) as any;
-  const content = json.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error('judge_empty_response');
+  if (!verdicts.length) {
+    throw outcomes[0].error;
+  }
+
+  const ranked = verdicts
+    .map((entry) => ({ ...entry, top5Mean: computeStatistics(entry.perRepo).top5Mean }))
+    .sort((a, b) => b.top5Mean - a.top5Mean);
+
+  const first = verdicts[0].verdict;
+  return {
+    overall_findings: mergeFindings(ranked.map(({ verdict }) => verdict.overall_findings)),
+    recommendations: mergeRecommendations(ranked.map(({ verdict }) => verdict.recommendations)),
+    per_repo: verdicts.flatMap((entry) => entry.perRepo),
+    provider: first.provider,
+    model: first.model,
+    model_version: first.model_version,
+    path: worstJudgePath(verdicts.map(({ verdict }) => verdict.path)),
+    repairs: verdicts.flatMap(({ verdict }) => verdict.repairs),
+    status,
+    chunks: chunks.length,
+    errors,
+  };
+}
+
+/**
+ * Runs the full chunked judge once per ensemble member, concurrently, and combines the per-repo
+ * scores with the ensemble's aggregate. A repo whose judges disagree by at least
+ * `disagreement_threshold` (variance) is flagged `needs_review`. Fails only when every judge failed.
+ */
+export async function runEnsembleJudge(
+  env: JudgeEnv,
+  payload: JudgeRequest,
+  ensemble: JudgeEnsemble,
+  options: JudgeOptions = {}
+): Promise<ChunkedJudgeResult> {
+  const aggregate = ensemble.aggregate ?? 'mean';
+  const threshold = ensemble.disagreement_threshold ?? DEFAULT_DISAGREEMENT_THRESHOLD;
+  const outcomes = await Promise.all(
+    ensemble.judges.map(async (config, judge) => {
+      const judgeOptions = { ...options, rubric: config.rubric ?? options.rubric, llm: config.llm ?? options.llm };
+      try {
+        const verdict = await runChunkedJudge(env, payload, judgeOptions);
+        return { judge, config, verdict, provider: verdict.provider, model: verdict.model, error: null, cause: null };
+      } catch (err) {
+        if (options.signal?.aborted) throw err;
+        const error = err instanceof Error ? err.message : String(err);
+        return { judge, config, verdict: null, ...resolveLlm(env, judgeOptions.llm), error, cause: err };
+      }
+    })
+  );
+  const succeeded = outcomes.flatMap((outcome) => (outcome.verdict ? [{ ...outcome, verdict: outcome.verdict }] : []));
+  if (!succeeded.length) {
+    throw outcomes[0].cause;
+  }
+
+  const status = new Map<string, ResultScoreStatus>();
+  const perRepo: JudgedRepo[] = [];
+  const scoresByJudge = succeeded.map(({ verdict }) => new Map(verdict.per_repo.map((item) => [item.full_name, item])));
+  for (const repo of payload.repos) {
+    const votes = succeeded.flatMap(({ judge, config, verdict }, idx) => {
+      const item = scoresByJudge[idx].get(repo.full_name);
+      return item ? [{ judge, model: verdict.model, weight: config.weight ?? 1, ...item }] : [];
+    });
+    if (!votes.length) {
+      const failed = succeeded.length < outcomes.length || succeeded.some(({ verdict }) => verdict.status.get(repo.full_name) === 'failed');
+      status.set(repo.full_name, failed ? 'failed' : 'skipped');
+      continue;
+    }
+    const score = aggregateScores(votes, aggregate);
+    const mean = votes.reduce((sum, vote) => sum + vote.score, 0) / votes.length;
+    const variance = votes.reduce((sum, vote) => sum + (vote.score - mean) ** 2, 0) / votes.length;
+    // The note of the judge closest to the combined score explains it best.
+    const closest = votes.reduce((best, vote) => (Math.abs(vote.score - score) < Math.abs(best.score - score) ? vote : best));
+    status.set(repo.full_name, 'scored');
+    perRepo.push({
+      full_name: repo.full_name,
+      score: round(score),
+      note: closest.note,
+      variance: round(variance),
+      judge_scores: votes.map((vote) => ({ judge: vote.judge, model: vote.model, score: vote.score })),
+      needs_review: votes.length > 1 && variance >= threshold,
+      ...(options.criteria?.length ? { criteria: averageCriteria(votes, options.criteria) } : {}),
+    });
   }
-  const parsed = JudgeResponseSchema.parse(JSON.parse(content));
-  return parsed;
+
+  const first = succeeded[0].verdict;
+  return {
+    overall_findings: mergeFindings(succeeded.map(({ verdict }) => verdict.overall_findings)),
+    recommendations: mergeRecommendations(succeeded.map(({ verdict }) => verdict.recommendations)),
+    per_repo: perRepo,
+    provider: first.provider,
+    model: first.model,
+    model_version: first.model_version,
+    path: worstJudgePath(succeeded.map(({ verdict }) => verdict.path)),
+    repairs: succeeded.flatMap(({ judge, verdict }) => verdict.repairs.map((repair) => `judge ${judge}: ${repair}`)),
+    status,
+    chunks: succeeded.reduce((sum, { verdict }) => sum + verdict.chunks, 0),
+    errors: outcomes.flatMap(({ judge, verdict, error }) =>
+      (verdict ? verdict.errors : [error]).map((message) => `judge ${judge}: ${message}`)
+    ),
+    ensemble: {
+      aggregate,
+      disagreement_threshold: threshold,
+      judges: outcomes.map(({ judge, provider, model, error }) => ({ judge, provider, model, error })),
+    },
+  };
+}
+
+function aggregateScores(votes: Array<{ score: number; weight: number }>, aggregate: EnsembleAggregate): number {
+  if (aggregate === 'median') {
+    return computeStatistics(votes).median;
+  }
+  if (aggregate === 'weighted') {
+    const totalWeight = votes.reduce((sum, vote) => sum + vote.weight, 0);
+    return votes.reduce((sum, vote) => sum + vote.score * vote.weight, 0) / totalWeight;
+  }
+  return votes.reduce((sum, vote) => sum + vote.score, 0) / votes.length;
+}
+
+function averageCriteria(votes: Array<{ criteria?: Record<string, number> }>, criteria: RubricCriterion[]): Record<string, number> {
+  return Object.fromEntries(
+    criteria.map((criterion) => {
+      const scores = votes.flatMap((vote) => (vote.criteria?.[criterion.key] === undefined ? [] : [vote.criteria[criterion.key]]));
+      return [criterion.key, scores.length ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0];
+    })
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
 }
 
-export function computeStatistics(perRepo: JudgeResponse['per_repo']): { median: number; top5Mean: number } {
+/** Joins findings in order while they fit the 500-character limit. */
+function mergeFindings(findings: string[]): string {
+  let merged = '';
+  for (const finding of findings) {
+    const next = merged ? `${merged} ${finding}` : finding;
+    if (next.length > 500) break;
+    merged = next;
+  }
+  return merged;
+}
+
+/** Takes recommendations round-robin across the lists, dropping case-insensitive duplicates, up to five. */
+function mergeRecommendations(lists: string[][]): string[] {
+  const recommendations: string[] = [];
+  const seen = new Set<string>();
+  const longest = Math.max(0, ...lists.map((list) => list.length));
+  for (let idx = 0; idx < longest; idx++) {
+    for (const list of lists) {
+      const key = list[idx]?.trim().toLowerCase();
+      if (!key || seen.has(key) || recommendations.length >= 5) continue;
+      seen.add(key);
+      recommendations.push(list[idx]);
+    }
+  }
+  return recommendations;
+}
+
+export function computeStatistics(perRepo: Array<{ score: number; variance?: number; needs_review?: boolean }>): ScoreStatistics {
   const scores = perRepo.map((r) => r.score).sort((a, b) => a - b);
   const mid = Math.floor(scores.length / 2);
-  const median = scores.length % 2 ? scores[mid] : (scores[mid - 1] + scores[mid]) / 2;
+  const median = !scores.length ? 0 : scores.length % 2 ? scores[mid] : (scores[mid - 1] + scores[mid]) / 2;
   const top5 = scores.slice(-5);
   const top5Mean = top5.length ? top5.reduce((sum, v) => sum + v, 0) / top5.length : 0;
-  return { median, top5Mean };
+  const variances = perRepo.flatMap((r) => (r.variance === undefined ? [] : [r.variance]));
+  if (!variances.length) {
+    return { median, top5Mean };
+  }
+  return {
+    median,
+    top5Mean,
+    ensemble: {
+      meanVariance: variances.reduce((sum, v) => sum + v, 0) / variances.length,
+      maxVariance: Math.max(...variances),
+      flagged: perRepo.filter((r) => r.needs_review).length,
+    },
+  };
 }
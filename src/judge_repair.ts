@@ -0,0 +1,166 @@
+import type { JudgeRequestRepo } from './judge';
+import type { RubricCriterion } from './rubrics';
+
+const MAX_FINDINGS_LENGTH = 500;
+const MAX_NOTE_LENGTH = 240;
+const MAX_RECOMMENDATIONS = 5;
+
+export interface RepairedJudgeOutput {
+  overall_findings: string;
+  recommendations: string[];
+  per_repo: Array<{ full_name: string; score: number; note: string; criteria?: Record<string, number> }>;
+}
+
+/**
+ * `fixes` lists what was normalised or dropped locally; `errors` are the problems that could not be
+ * fixed, in which case `output` is null and the model has to be asked again.
+ */
+export interface JudgeRepairResult {
+  output: RepairedJudgeOutput | null;
+  fixes: string[];
+  errors: string[];
+}
+
+function normalizeRepoName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^(www\.)?github\.com\//, '')
+    .replace(/\.git$/, '')
+    .replace(/\/+$/, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Maps a `full_name` the model returned back to a candidate: exact or case-insensitive, a URL of the
+ * repo, a bare repo name that only one candidate has, or the single closest name within two edits.
+ */
+export function matchRepoName(name: string, repos: JudgeRequestRepo[]): string | null {
+  const wanted = normalizeRepoName(name);
+  if (!wanted) return null;
+  const exact = repos.find((repo) => normalizeRepoName(repo.full_name) === wanted || normalizeRepoName(repo.html_url) === wanted);
+  if (exact) return exact.full_name;
+  if (!wanted.includes('/')) {
+    const byRepoName = repos.filter((repo) => normalizeRepoName(repo.full_name).split('/').pop() === wanted);
+    return byRepoName.length === 1 ? byRepoName[0].full_name : null;
+  }
+  const ranked = repos
+    .map((repo) => ({ repo, distance: editDistance(normalizeRepoName(repo.full_name), wanted) }))
+    .sort((a, b) => a.distance - b.distance);
+  const [best, runnerUp] = ranked;
+  if (!best || best.distance > 2 || (runnerUp && runnerUp.distance === best.distance)) return null;
+  return best.repo.full_name;
+}
+
+function toUnitScore(value: unknown): number | null {
+  const score = typeof value === 'string' ? Number(value) : value;
+  if (typeof score !== 'number' || Number.isNaN(score)) return null;
+  return Math.min(1, Math.max(0, score));
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Salvages a judge response that misses the schema: trims over-long text, drops extra or duplicate
+ * recommendations, clamps scores, matches fuzzy repo names and drops entries that still do not fit.
+ */
+export function repairJudgeOutput(raw: unknown, repos: JudgeRequestRepo[], criteria?: RubricCriterion[]): JudgeRepairResult {
+  const fixes: string[] = [];
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { output: null, fixes, errors: ['the response must be a JSON object'] };
+  }
+  const record = raw as Record<string, unknown>;
+
+  let findings = typeof record.overall_findings === 'string' ? record.overall_findings.trim() : '';
+  if (typeof record.overall_findings !== 'string') {
+    fixes.push('overall_findings was missing');
+  } else if (findings.length > MAX_FINDINGS_LENGTH) {
+    findings = truncate(findings, MAX_FINDINGS_LENGTH);
+    fixes.push('overall_findings truncated');
+  }
+
+  const rawRecommendations = typeof record.recommendations === 'string' ? [record.recommendations] : record.recommendations;
+  const recommendations = Array.isArray(rawRecommendations)
+    ? [...new Set(rawRecommendations.filter((item): item is string => typeof item === 'string').map((item) => item.trim()).filter(Boolean))]
+    : [];
+  if (recommendations.length > MAX_RECOMMENDATIONS) {
+    fixes.push(`kept ${MAX_RECOMMENDATIONS} of ${recommendations.length} recommendations`);
+    recommendations.length = MAX_RECOMMENDATIONS;
+  }
+  if (!recommendations.length) {
+    errors.push(`recommendations must contain 1 to ${MAX_RECOMMENDATIONS} GitHub search queries`);
+  }
+
+  const perRepo: RepairedJudgeOutput['per_repo'] = [];
+  if (!Array.isArray(record.per_repo)) {
+    errors.push('per_repo must be an array');
+  } else {
+    const seen = new Set<string>();
+    for (const entry of record.per_repo as Array<Record<string, unknown> | null>) {
+      if (!entry || typeof entry.full_name !== 'string') {
+        fixes.push('dropped a per_repo entry without full_name');
+        continue;
+      }
+      const fullName = matchRepoName(entry.full_name, repos);
+      if (!fullName) {
+        fixes.push(`dropped unknown repository ${entry.full_name}`);
+        continue;
+      }
+      if (fullName !== entry.full_name) fixes.push(`matched ${entry.full_name} to ${fullName}`);
+      if (seen.has(fullName)) {
+        fixes.push(`dropped duplicate entry for ${fullName}`);
+        continue;
+      }
+      const score = toUnitScore(entry.score);
+      if (score === null) {
+        fixes.push(`dropped ${fullName}: score is not a number`);
+        continue;
+      }
+      if (score !== entry.score) fixes.push(`${fullName}: score normalised to ${score}`);
+      let note = typeof entry.note === 'string' ? entry.note.trim() : '';
+      if (note.length > MAX_NOTE_LENGTH) {
+        note = truncate(note, MAX_NOTE_LENGTH);
+        fixes.push(`${fullName}: note truncated`);
+      }
+      let criteriaScores: Record<string, number> | undefined;
+      if (criteria?.length) {
+        const given = (entry.criteria ?? {}) as Record<string, unknown>;
+        const scores = criteria.map((criterion) => [criterion.key, toUnitScore(given[criterion.key])] as const);
+        const missing = scores.filter(([, value]) => value === null).map(([key]) => key);
+        if (missing.length) {
+          fixes.push(`dropped ${fullName}: no score for criteria ${missing.join(', ')}`);
+          continue;
+        }
+        criteriaScores = Object.fromEntries(scores) as Record<string, number>;
+      }
+      seen.add(fullName);
+      perRepo.push({ full_name: fullName, score, note, ...(criteriaScores ? { criteria: criteriaScores } : {}) });
+    }
+    // With no candidates an empty per_repo is the right answer; the call only asks for recommendations.
+    if (!perRepo.length && repos.length) {
+      const names = repos.slice(0, 5).map((repo) => repo.full_name);
+      if (repos.length > names.length) names.push('…');
+      errors.push(`per_repo must score the listed repositories by full_name (${names.join(', ')})`);
+    }
+  }
+
+  if (errors.length) {
+    return { output: null, fixes, errors };
+  }
+  return { output: { overall_findings: findings, recommendations, per_repo: perRepo }, fixes, errors };
+}
@@ -0,0 +1,234 @@
+import { Database } from './db';
+import type { RepoRow } from './db';
+import type { GitHubRepository } from './github';
+import { chunkArray, escapeHtml, hashString, Logger } from './util';
+
+export interface LibraryEnv {
+  AI?: Ai;
+  LIBRARY_INDEX?: Vectorize;
+}
+
+export const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+const EMBEDDING_DIMENSIONS = 768;
+const CHUNK_SIZE = 800;
+const CHUNK_OVERLAP = 100;
+/** README chunks indexed per repo; the description chunk comes on top. */
+const MAX_README_CHUNKS = 8;
+const EMBED_BATCH_SIZE = 50;
+/** Vectorize accepts at most 1000 vectors per upsert. */
+const VECTOR_UPSERT_BATCH_SIZE = 1000;
+
+interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: { repo_id: string; chunk_index: number };
+}
+
+interface VectorMatch {
+  id: string;
+  score: number;
+  repo_id: string;
+}
+
+interface VectorStore {
+  upsert(vectors: VectorRecord[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  query(values: number[], topK: number): Promise<VectorMatch[]>;
+}
+
+class VectorizeStore implements VectorStore {
+  constructor(private readonly index: Vectorize) {}
+
+  async upsert(vectors: VectorRecord[]): Promise<void> {
+    await this.index.upsert(vectors);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length) await this.index.deleteByIds(ids);
+  }
+
+  async query(values: number[], topK: number): Promise<VectorMatch[]> {
+    const result = await this.index.query(values, { topK, returnMetadata: 'all' });
+    return result.matches.map((match) => ({ id: match.id, score: match.score, repo_id: String(match.metadata?.repo_id ?? '') }));
+  }
+}
+
+/** Stand-in for local dev and tests without a Vectorize binding; lives as long as the isolate. */
+class MemoryVectorStore implements VectorStore {
+  private readonly vectors = new Map<string, VectorRecord>();
+  /** Content hash per repo id of what this store holds; D1's `library_documents` outlives it. */
+  readonly contentHashes = new Map<string, string>();
+
+  async upsert(vectors: VectorRecord[]): Promise<void> {
+    for (const vector of vectors) this.vectors.set(vector.id, vector);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) this.vectors.delete(id);
+  }
+
+  async query(values: number[], topK: number): Promise<VectorMatch[]> {
+    return [...this.vectors.values()]
+      .map((vector) => ({ id: vector.id, score: cosine(values, vector.values), repo_id: vector.metadata.repo_id }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
+
+const memoryStore = new MemoryVectorStore();
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let idx = 0; idx < Math.min(a.length, b.length); idx++) {
+    dot += a[idx] * b[idx];
+    normA += a[idx] * a[idx];
+    normB += b[idx] * b[idx];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9][a-z0-9_-]{1,}/g) ?? [];
+}
+
+/** Feature-hashed bag of words: a deterministic embedding for when the AI binding is absent. */
+function hashedEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const token of tokenize(text)) {
+    let hash = 2166136261;
+    for (let idx = 0; idx < token.length; idx++) {
+      hash = Math.imul(hash ^ token.charCodeAt(idx), 16777619);
+    }
+    vector[Math.abs(hash) % EMBEDDING_DIMENSIONS] += hash < 0 ? -1 : 1;
+  }
+  return vector;
+}
+
+async function embed(env: LibraryEnv, texts: string[]): Promise<number[][]> {
+  if (!env.AI) {
+    return texts.map(hashedEmbedding);
+  }
+  const vectors: number[][] = [];
+  for (const batch of chunkArray(texts, EMBED_BATCH_SIZE)) {
+    const result = (await env.AI.run(EMBEDDING_MODEL, { text: batch })) as { data: number[][] };
+    vectors.push(...result.data);
+  }
+  return vectors;
+}
+
+function vectorStore(env: LibraryEnv): VectorStore {
+  return env.LIBRARY_INDEX ? new VectorizeStore(env.LIBRARY_INDEX) : memoryStore;
+}
+
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').trim();
+  const chunks: string[] = [];
+  for (let start = 0; start < normalized.length; start += size - overlap) {
+    chunks.push(normalized.slice(start, start + size));
+    if (start + size >= normalized.length) break;
+  }
+  return chunks;
+}
+
+/** Vectorize ids are capped at 64 bytes, and GitLab/Gitea repo ids can be long. */
+async function vectorId(repoId: string, chunkIndex: number): Promise<string> {
+  return `${(await hashString(repoId)).slice(0, 40)}:${chunkIndex}`;
+}
+
+function libraryChunks(repo: GitHubRepository, readme: string | null): string[] {
+  const summary = [repo.full_name, repo.description ?? '', repo.topics.join(' ')].filter(Boolean).join('\n');
+  return [summary, ...(readme ? chunkText(readme).slice(0, MAX_README_CHUNKS) : [])];
+}
+
+/**
+ * Embeds each repo's description and README chunks into the library index. Repos whose chunk text
+ * is unchanged since the last indexing are skipped; stale trailing chunks are removed. The chunks of
+ * all changed repos are embedded together, so a search costs a few batched AI calls at most.
+ */
+export async function indexLibrary(
+  env: LibraryEnv,
+  db: Database,
+  entries: Array<{ repo: GitHubRepository; readme: string | null }>,
+  logger?: Logger
+): Promise<number> {
+  const store = vectorStore(env);
+  const known = await db.getLibraryDocuments(entries.map((entry) => entry.repo.node_id));
+  const changed: Array<{ repo: GitHubRepository; chunks: string[]; contentHash: string; ids: string[] }> = [];
+  for (const { repo, readme } of entries) {
+    const chunks = libraryChunks(repo, readme);
+    const contentHash = await hashString(chunks.join('\n\u0000'));
+    // Only Vectorize persists across isolates; the memory store must be refilled after a restart.
+    const indexedHash = env.LIBRARY_INDEX ? known.get(repo.node_id)?.content_hash : memoryStore.contentHashes.get(repo.node_id);
+    if (indexedHash === contentHash) continue;
+    const ids = await Promise.all(chunks.map((_, idx) => vectorId(repo.node_id, idx)));
+    changed.push({ repo, chunks, contentHash, ids });
+  }
+
+  const values = await embed(env, changed.flatMap((entry) => entry.chunks));
+  let offset = 0;
+  const vectors = changed.flatMap(({ repo, chunks, ids }) =>
+    chunks.map((_, idx) => ({ id: ids[idx], values: values[offset++], metadata: { repo_id: repo.node_id, chunk_index: idx } }))
+  );
+  for (const batch of chunkArray(vectors, VECTOR_UPSERT_BATCH_SIZE)) {
+    await store.upsert(batch);
+  }
+
+  for (const { repo, chunks, contentHash, ids } of changed) {
+    const previous = known.get(repo.node_id);
+    if (previous && previous.chunk_count > chunks.length) {
+      const staleIds = await Promise.all(
+        Array.from({ length: previous.chunk_count - chunks.length }, (_, idx) => vectorId(repo.node_id, chunks.length + idx))
+      );
+      await store.delete(staleIds);
+    }
+    await db.saveLibraryDocument(
+      repo.node_id,
+      contentHash,
+      chunks.map((content, idx) => ({ vector_id: ids[idx], chunk_index: idx, content }))
+    );
+    if (!env.LIBRARY_INDEX) memoryStore.contentHashes.set(repo.node_id, contentHash);
+  }
+  const indexed = changed.length;
+  logger?.info('library_indexed', { indexed, skipped: entries.length - indexed, store: env.LIBRARY_INDEX ? 'vectorize' : 'memory' });
+  return indexed;
+}
+
+/** HTML-escapes the chunk and wraps each query term in `<mark>`. */
+export function highlightChunk(text: string, query: string): string {
+  const terms = [...new Set(tokenize(query).filter((term) => term.length >= 3))];
+  const escaped = escapeHtml(text);
+  if (!terms.length) return escaped;
+  const pattern = new RegExp(`(${terms.map((term) => term.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&')).join('|')})`, 'gi');
+  return escaped.replace(pattern, '<mark>$1</mark>');
+}
+
+export interface LibraryHit {
+  repo_id: string;
+  score: number;
+  repo: RepoRow | null;
+  chunk: { index: number; text: string; highlighted: string } | null;
+}
+
+/** Nearest repos in the accumulated library; one hit per repo, carrying its best-matching chunk. */
+export async function searchLibrary(env: LibraryEnv, db: Database, query: string, topK = 10): Promise<LibraryHit[]> {
+  const [queryVector] = await embed(env, [query]);
+  const matches = await vectorStore(env).query(queryVector, Math.min(topK * 4, 100));
+  const best = new Map<string, VectorMatch>();
+  for (const match of matches) {
+    if (match.repo_id && !best.has(match.repo_id)) best.set(match.repo_id, match);
+  }
+  const top = [...best.values()].slice(0, topK);
+  const chunks = await db.getLibraryChunks(top.map((match) => match.id));
+  const repos = new Map((await db.getReposByIds(top.map((match) => match.repo_id))).map((repo) => [repo.id, repo]));
+  return top.map((match) => {
+    const chunk = chunks.get(match.id);
+    return {
+      repo_id: match.repo_id,
+      score: match.score,
+      repo: repos.get(match.repo_id) ?? null,
+      chunk: chunk ? { index: chunk.chunk_index, text: chunk.content, highlighted: highlightChunk(chunk.content, query) } : null,
+    };
+  });
+}
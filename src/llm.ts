@@ -0,0 +1,387 @@
+import type { JudgeEnv } from './judge';
+import { sleep } from './util';
+
+export type LlmPurpose = 'planner' | 'judge' | 'scaffold_plan';
+
+/** Providers sessions, profiles and ensemble judges may pick. */
+export const SELECTABLE_LLM_PROVIDERS = ['openai', 'anthropic', 'workers_ai', 'openai_compatible'] as const;
+
+/** `stub` answers with heuristics, so it is only available through the `LLM_PROVIDER` var for local dev. */
+export const LLM_PROVIDERS = [...SELECTABLE_LLM_PROVIDERS, 'stub'] as const;
+
+export type LlmProviderKind = (typeof LLM_PROVIDERS)[number];
+
+/** Provider/model choice stored on a session or profile; unset fields fall back to the env defaults. */
+export interface LlmSelection {
+  provider: (typeof SELECTABLE_LLM_PROVIDERS)[number];
+  model?: string;
+}
+
+const DEFAULT_MODELS: Record<LlmProviderKind, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  workers_ai: '@cf/meta/llama-3.1-8b-instruct',
+  openai_compatible: 'gpt-4o-mini',
+  stub: 'stub',
+};
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 2;
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+/** USD per million tokens. */
+export interface LlmPrice {
+  input: number;
+  output: number;
+}
+
+/** Defaults for models this Worker is commonly pointed at; override or extend with the `LLM_PRICES` var. */
+export const LLM_PRICES: Record<string, LlmPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  stub: { input: 0, output: 0 },
+};
+
+export interface LlmCallRecord {
+  purpose: LlmPurpose;
+  provider: LlmProviderKind;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  /** Null when the model has no entry in the price table. */
+  cost_usd: number | null;
+  status: 'ok' | 'error';
+  error: string | null;
+}
+
+export type LlmCallSink = (call: LlmCallRecord) => void | Promise<void>;
+
+/** JSON schema for structured output; providers without native support get it in the prompt. */
+export interface LlmJsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ChatCompletionRequest {
+  purpose: LlmPurpose;
+  messages: Array<{ role: string; content: string }>;
+  /** Error message prefix for non-2xx responses, e.g. `judge_api_error`. */
+  errorCode: string;
+  schema?: LlmJsonSchema;
+  /** Session or profile choice; defaults to `LLM_PROVIDER`/`JUDGE_MODEL`. */
+  llm?: LlmSelection | null;
+  /** Deterministic answer returned by the `stub` provider. */
+  stub?: () => unknown;
+  signal?: AbortSignal;
+  onCall?: LlmCallSink;
+}
+
+export interface ChatCompletionResult {
+  content: string | null;
+  provider: LlmProviderKind;
+  /** The model the provider reports having used, e.g. a dated snapshot of the requested alias. */
+  model: string;
+  /** Provider build identifier (OpenAI `system_fingerprint`) or the snapshot date of `model`. */
+  modelVersion: string | null;
+}
+
+interface AdapterResponse {
+  content: string | null;
+  model: string;
+  modelVersion: string | null;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface AdapterRequest {
+  model: string;
+  messages: ChatCompletionRequest['messages'];
+  schema?: LlmJsonSchema;
+  stub?: () => unknown;
+  errorCode: string;
+  signal: AbortSignal;
+}
+
+type LlmAdapter = (request: AdapterRequest) => Promise<AdapterResponse>;
+
+/**
+ * The `AI` binding as this adapter calls it. The model name comes from config at runtime, so it cannot
+ * be one of the literal keys `Ai['run']` is typed with.
+ */
+interface WorkersAiChat {
+  run(
+    model: string,
+    inputs: {
+      messages: AdapterRequest['messages'];
+      response_format: { type: 'json_schema'; json_schema: Record<string, unknown> } | { type: 'json_object' };
+    }
+  ): Promise<{ response?: unknown; usage?: { prompt_tokens?: number; completion_tokens?: number } }>;
+}
+
+/** Thrown for responses worth retrying (429 and 5xx). */
+class LlmHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs: number | null
+  ) {
+    super(message);
+    this.name = 'LlmHttpError';
+  }
+}
+
+function snapshotDate(model: string): string | null {
+  const match = model.match(/(\d{4})-?(\d{2})-?(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+async function checkResponse(res: Response, errorCode: string): Promise<void> {
+  if (res.ok) return;
+  const retryAfter = Number(res.headers.get('retry-after'));
+  throw new LlmHttpError(`${errorCode} ${res.status}`, res.status, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null);
+}
+
+function openAiAdapter(apiKey: string, baseUrl: string, nativeSchema: boolean): LlmAdapter {
+  return async (request) => {
+    const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: nativeSchema ? request.messages : withSchemaInstructions(request.messages, request.schema),
+        temperature: 0,
+        response_format:
+          nativeSchema && request.schema
+            ? { type: 'json_schema', json_schema: { name: request.schema.name, schema: request.schema.schema, strict: false } }
+            : { type: 'json_object' },
+      }),
+      signal: request.signal,
+    });
+    await checkResponse(res, request.errorCode);
+    const json = (await res.json()) as any;
+    const model = typeof json.model === 'string' ? json.model : request.model;
+    return {
+      content: json.choices?.[0]?.message?.content ?? null,
+      model,
+      modelVersion: json.system_fingerprint ?? snapshotDate(model),
+      promptTokens: json.usage?.prompt_tokens ?? 0,
+      completionTokens: json.usage?.completion_tokens ?? 0,
+    };
+  };
+}
+
+/** Structured output through a forced tool call, whose input is the JSON object. */
+function anthropicAdapter(apiKey: string): LlmAdapter {
+  return async (request) => {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const schema = request.schema ?? { name: 'respond', schema: { type: 'object' } };
+    const res = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        temperature: 0,
+        system,
+        messages: request.messages.filter((message) => message.role !== 'system'),
+        tools: [{ name: schema.name, description: 'Return the answer as this JSON object.', input_schema: schema.schema }],
+        tool_choice: { type: 'tool', name: schema.name },
+      }),
+      signal: request.signal,
+    });
+    await checkResponse(res, request.errorCode);
+    const json = (await res.json()) as any;
+    const toolUse = (json.content ?? []).find((block: any) => block.type === 'tool_use');
+    const model = typeof json.model === 'string' ? json.model : request.model;
+    return {
+      content: toolUse ? JSON.stringify(toolUse.input) : null,
+      model,
+      modelVersion: snapshotDate(model),
+      promptTokens: json.usage?.input_tokens ?? 0,
+      completionTokens: json.usage?.output_tokens ?? 0,
+    };
+  };
+}
+
+function workersAiAdapter(ai: WorkersAiChat): LlmAdapter {
+  return async (request) => {
+    const run = ai.run(request.model, {
+      messages: request.messages,
+      response_format: request.schema ? { type: 'json_schema', json_schema: request.schema.schema } : { type: 'json_object' },
+    });
+    // The binding takes no AbortSignal, so a cancel or timeout stops waiting instead.
+    const result = await Promise.race([
+      run,
+      new Promise<never>((_, reject) => {
+        if (request.signal.aborted) reject(request.signal.reason);
+        request.signal.addEventListener('abort', () => reject(request.signal.reason), { once: true });
+      }),
+    ]);
+    const response = result.response;
+    return {
+      content: response === undefined || response === null ? null : typeof response === 'string' ? response : JSON.stringify(response),
+      model: request.model,
+      modelVersion: null,
+      promptTokens: result.usage?.prompt_tokens ?? 0,
+      completionTokens: result.usage?.completion_tokens ?? 0,
+    };
+  };
+}
+
+/** Local dev and tests: answers with the caller's deterministic `stub`, without any network call. */
+const stubAdapter: LlmAdapter = async (request) => ({
+  content: JSON.stringify(request.stub ? request.stub() : {}),
+  model: request.model,
+  modelVersion: null,
+  promptTokens: 0,
+  completionTokens: 0,
+});
+
+function withSchemaInstructions(messages: ChatCompletionRequest['messages'], schema?: LlmJsonSchema): ChatCompletionRequest['messages'] {
+  if (!schema) return messages;
+  return [...messages, { role: 'system', content: `Respond with a JSON object matching this JSON schema: ${JSON.stringify(schema.schema)}` }];
+}
+
+function createAdapter(env: JudgeEnv, provider: LlmProviderKind): LlmAdapter {
+  switch (provider) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) throw new Error('missing_openai_api_key');
+      return openAiAdapter(env.OPENAI_API_KEY, 'https://api.openai.com/v1', true);
+    case 'openai_compatible':
+      if (!env.LLM_BASE_URL) throw new Error('missing_llm_base_url');
+      return openAiAdapter(env.LLM_API_KEY ?? env.OPENAI_API_KEY ?? '', env.LLM_BASE_URL, false);
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) throw new Error('missing_anthropic_api_key');
+      return anthropicAdapter(env.ANTHROPIC_API_KEY);
+    case 'workers_ai':
+      if (!env.AI) throw new Error('missing_ai_binding');
+      return workersAiAdapter(env.AI as unknown as WorkersAiChat);
+    case 'stub':
+      return stubAdapter;
+    default: {
+      const unknown: never = provider;
+      throw new Error(`invalid_llm_provider ${unknown}`);
+    }
+  }
+}
+
+function isLlmProvider(value: string): value is LlmProviderKind {
+  return (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/** Reads the `llm_provider`/`llm_model` columns of a session or profile row. */
+export function llmSelectionFromRow(row: { llm_provider: string | null; llm_model: string | null } | null | undefined): LlmSelection | null {
+  const provider = SELECTABLE_LLM_PROVIDERS.find((candidate) => candidate === row?.llm_provider);
+  if (!row || !provider) return null;
+  return { provider, ...(row.llm_model ? { model: row.llm_model } : {}) };
+}
+
+/**
+ * Session/profile selection first, then `LLM_PROVIDER` with `JUDGE_MODEL`, then the provider default.
+ * Throws `invalid_llm_provider` when `LLM_PROVIDER` names no known provider.
+ */
+export function resolveLlm(
+  env: Pick<JudgeEnv, 'LLM_PROVIDER' | 'JUDGE_MODEL'>,
+  selection?: LlmSelection | null
+): { provider: LlmProviderKind; model: string } {
+  const envProvider = env.LLM_PROVIDER ?? 'openai';
+  if (!isLlmProvider(envProvider)) {
+    throw new Error(`invalid_llm_provider ${envProvider}`);
+  }
+  const provider = selection?.provider ?? envProvider;
+  const model = selection?.model ?? (provider === envProvider ? env.JUDGE_MODEL : undefined) ?? DEFAULT_MODELS[provider];
+  return { provider, model };
+}
+
+function priceTable(env: JudgeEnv): Record<string, LlmPrice> {
+  if (!env.LLM_PRICES) return LLM_PRICES;
+  try {
+    return { ...LLM_PRICES, ...(JSON.parse(env.LLM_PRICES) as Record<string, LlmPrice>) };
+  } catch {
+    return LLM_PRICES;
+  }
+}
+
+/** Dated snapshots (`gpt-4o-mini-2024-07-18`) are priced by the longest matching model prefix. */
+export function computeLlmCost(env: JudgeEnv, model: string, promptTokens: number, completionTokens: number): number | null {
+  const prices = priceTable(env);
+  const key = prices[model]
+    ? model
+    : Object.keys(prices)
+        .filter((candidate) => model.startsWith(`${candidate}-`))
+        .sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+  const price = prices[key];
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof LlmHttpError) return err.status === 429 || err.status >= 500;
+  // Network failures and per-attempt timeouts; the caller's own abort is checked separately.
+  return err instanceof Error && !(err instanceof SyntaxError);
+}
+
+/**
+ * JSON chat completion through the selected provider, with a per-attempt timeout (`LLM_TIMEOUT_MS`)
+ * and retries with backoff on network errors, timeouts, 429 and 5xx (`LLM_MAX_RETRIES`). Every
+ * attempt, including failed ones, is reported to `onCall` with its token usage, latency and cost.
+ */
+export async function chatCompletion(env: JudgeEnv, request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+  const { provider, model } = resolveLlm(env, request.llm);
+  const adapter = createAdapter(env, provider);
+  const timeoutMs = Number(env.LLM_TIMEOUT_MS ?? DEFAULT_TIMEOUT_MS);
+  const maxRetries = Number(env.LLM_MAX_RETRIES ?? DEFAULT_MAX_RETRIES);
+
+  for (let attempt = 0; ; attempt++) {
+    const start = Date.now();
+    const report = async (call: { model: string; prompt_tokens: number; completion_tokens: number; status: 'ok' | 'error'; error: string | null }) => {
+      await request.onCall?.({
+        ...call,
+        purpose: request.purpose,
+        provider,
+        latency_ms: Date.now() - start,
+        cost_usd: computeLlmCost(env, call.model, call.prompt_tokens, call.completion_tokens),
+      });
+    };
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = request.signal ? AbortSignal.any([request.signal, timeout]) : timeout;
+    try {
+      const response = await adapter({ model, messages: request.messages, schema: request.schema, stub: request.stub, errorCode: request.errorCode, signal });
+      await report({
+        model: response.model,
+        prompt_tokens: response.promptTokens,
+        completion_tokens: response.completionTokens,
+        status: 'ok',
+        error: null,
+      });
+      return { content: response.content, provider, model: response.model, modelVersion: response.modelVersion };
+    } catch (err) {
+      const error = err instanceof LlmHttpError ? `http_${err.status}` : timeout.aborted ? 'timeout' : err instanceof Error ? err.message : String(err);
+      await report({ model, prompt_tokens: 0, completion_tokens: 0, status: 'error', error });
+      if (request.signal?.aborted || attempt >= maxRetries || !(timeout.aborted || isRetryable(err))) {
+        throw timeout.aborted && !request.signal?.aborted ? new Error(`${request.errorCode} timeout`) : err;
+      }
+      const retryAfter = err instanceof LlmHttpError ? err.retryAfterMs : null;
+      await sleep(retryAfter ?? 500 * 2 ** attempt, request.signal);
+    }
+  }
+}
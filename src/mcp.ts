@@ -1,10 +1,12 @@
 import { Database } from './db';
-import { runSearchLifecycle } from './search';
+import { buildAttemptTree, runSearchLifecycle } from './search';
+import { searchLibrary } from './library';
+import { compileFullTextQuery, FullTextQueryError } from './fulltext';
 import { queryCloudflareDocs } from './mcp_cloudflare_docs_client';
 import type { ApiEnv } from './routes';
 import { errorResponse, jsonResponse } from './util';
 
-export async function handleMcpRequest(request: Request, env: ApiEnv): Promise<Response> {
+export async function handleMcpRequest(request: Request, env: ApiEnv, ctx: ExecutionContext): Promise<Response> {
   if (request.method !== 'POST') {
     return errorResponse('method_not_allowed', 'MCP endpoint expects POST', 405);
   }
@@ -23,11 +25,17 @@ export async function handleMcpRequest(request: Request, env: ApiEnv): Promise<R
       const lifecycle = await runSearchLifecycle(env, db, {
         sessionId,
         query: params.query ?? session.natural_language_request,
+        profileId: params.profile_id ?? session.profile_id,
+        mode: params.mode,
+        provider: params.provider,
         naturalLanguageRequest: session.natural_language_request,
         baseKeywords: params.base_keywords ?? true,
         maxResults: params.max_results ?? 30,
         searchWithinSessions: params.search_within_sessions ?? [],
+        includeGitHub: params.include_github,
         retryPolicy: params.retry_policy,
+        judgeEnsemble: params.judge_ensemble,
+        waitUntil: (promise) => ctx.waitUntil(promise),
       });
       return jsonResponse(lifecycle);
     }
@@ -40,7 +48,7 @@ export async function handleMcpRequest(request: Request, env: ApiEnv): Promise<R
     case 'list_attempts': {
       const sessionId = params.session_id as string;
       const result = await db.listAttempts(sessionId);
-      return jsonResponse(result);
+      return jsonResponse(params.view === 'tree' ? buildAttemptTree([...result].reverse()) : result);
     }
     case 'list_results': {
       const sessionId = params.session_id as string;
@@ -48,6 +56,16 @@ export async function handleMcpRequest(request: Request, env: ApiEnv): Promise<R
       if (!session) {
         return errorResponse('not_found', 'Session not found', 404);
       }
+      if (params.q) {
+        try {
+          compileFullTextQuery(params.q);
+        } catch (err) {
+          if (err instanceof FullTextQueryError) {
+            return errorResponse('invalid_query', err.message, 400);
+          }
+          throw err;
+        }
+      }
       const result = await db.listResults({
         sessionId,
         attemptId: params.attempt_id ?? undefined,
@@ -57,9 +75,24 @@ export async function handleMcpRequest(request: Request, env: ApiEnv): Promise<R
         sort: params.sort ?? undefined,
         limit: params.limit ?? 20,
         cursor: params.cursor ?? undefined,
+        binding: params.binding ?? undefined,
+        framework: params.framework ?? undefined,
+        excludeArchived: params.exclude_archived === true,
+        excludeForks: params.exclude_forks === true,
+        licenses: typeof params.license === 'string' ? params.license.split(',').map((license: string) => license.trim()) : params.license,
+        pushedAfter: params.pushed_after ?? undefined,
+        needsReview: params.needs_review === true,
       });
       return jsonResponse(result);
     }
+    case 'library_search': {
+      const query = params.query as string;
+      if (!query) {
+        return errorResponse('invalid_request', 'query is required', 400);
+      }
+      const items = await searchLibrary(env, db, query, Math.min(params.top_k ?? 10, 50));
+      return jsonResponse({ items });
+    }
     case 'get_openapi_spec': {
       const res = await env.ASSETS.fetch(new Request('https://worker.local/openapi.json'));
       const json = await res.json();
@@ -0,0 +1,301 @@
+import { z } from 'zod';
+import { renderQueryTemplate } from './profiles';
+import { chatCompletion } from './llm';
+import type { LlmCallSink, LlmJsonSchema, LlmSelection } from './llm';
+import type { JudgeEnv } from './judge';
+import type { ProfileDefaultFilters, SearchProfile } from './profiles';
+
+export const MAX_QUERY_LENGTH = 256;
+export const MAX_QUERY_OPERATORS = 5;
+
+const SearchIntentSchema = z.object({
+  keywords: z.array(z.string().min(1)).max(8),
+  language: z.string().min(1).nullable(),
+  min_stars: z.number().int().min(0).nullable(),
+  pushed_after: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .nullable(),
+  topics: z.array(z.string().min(1)).max(3),
+  license: z.string().min(1).nullable(),
+  exclude_archived: z.boolean(),
+  filenames: z.array(z.string().min(1)).max(3).default([]),
+  paths: z.array(z.string().min(1)).max(2).default([]),
+  code_terms: z.array(z.string().min(1)).max(5).default([]),
+});
+
+export type SearchIntent = z.infer<typeof SearchIntentSchema>;
+
+export type SearchMode = 'repositories' | 'code';
+
+export interface PlannedSearch {
+  intent: SearchIntent;
+  planner: 'llm' | 'heuristic';
+  queries: string[];
+  dropped: string[];
+}
+
+const stringArray = (maxItems: number) => ({ type: 'array', items: { type: 'string' }, maxItems });
+const nullable = (type: string) => ({ type: [type, 'null'] });
+
+const SEARCH_INTENT_JSON_SCHEMA: LlmJsonSchema = {
+  name: 'search_intent',
+  schema: {
+    type: 'object',
+    properties: {
+      keywords: stringArray(8),
+      language: nullable('string'),
+      min_stars: nullable('integer'),
+      pushed_after: nullable('string'),
+      topics: stringArray(3),
+      license: nullable('string'),
+      exclude_archived: { type: 'boolean' },
+      filenames: stringArray(3),
+      paths: stringArray(2),
+      code_terms: stringArray(5),
+    },
+    required: ['keywords', 'language', 'min_stars', 'pushed_after', 'topics', 'license', 'exclude_archived'],
+  },
+};
+
+const PLANNER_PROMPT = `You convert natural-language requests for GitHub repositories into structured search intent. Return a JSON object with keys keywords (<=8 short search terms, no qualifiers), language (GitHub language name or null), min_stars (integer or null), pushed_after (YYYY-MM-DD or null), topics (<=3 GitHub topic slugs), license (SPDX id in lowercase or null), exclude_archived (boolean, default true), filenames (<=3 file names the matching code lives in, e.g. wrangler.toml), paths (<=2 directory prefixes) and code_terms (<=5 literal strings expected inside those files, e.g. durable_objects). Resolve relative dates such as "this year" against today's date.`;
+
+const LANGUAGES = ['TypeScript', 'JavaScript', 'Python', 'Go', 'Rust', 'Java', 'Kotlin', 'Ruby', 'PHP', 'C#', 'C++', 'Swift', 'Zig'];
+const LICENSES: Record<string, string> = {
+  mit: 'mit',
+  apache: 'apache-2.0',
+  'apache-2.0': 'apache-2.0',
+  gpl: 'gpl-3.0',
+  bsd: 'bsd-3-clause',
+  mpl: 'mpl-2.0',
+};
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'with', 'for', 'of', 'to', 'in', 'on', 'that', 'this', 'year', 'updated', 'stars', 'star',
+  'repo', 'repos', 'repository', 'repositories', 'example', 'examples', 'using', 'uses', 'than', 'more', 'over', 'license',
+  'licensed', 'find', 'me', 'show', 'recent', 'recently', 'backed',
+]);
+
+/**
+ * Deterministic fallback used when no LLM is configured or the planner call fails. It only picks
+ * up the handful of patterns that map cleanly onto GitHub qualifiers and keeps the rest as keywords.
+ */
+export function heuristicIntent(text: string, now = new Date()): SearchIntent {
+  const lower = text.toLowerCase();
+  let minStars: number | null = null;
+  const starsMatch = lower.match(/(?:>|over|more than|at least)\s*(\d+)\s*stars?/) ?? lower.match(/stars?\s*(?:>|over)\s*(\d+)/);
+  if (starsMatch) {
+    minStars = Number(starsMatch[1]);
+  }
+
+  let pushedAfter: string | null = null;
+  if (/this year/.test(lower)) {
+    pushedAfter = `${now.getUTCFullYear()}-01-01`;
+  } else {
+    const sinceMatch = lower.match(/(?:since|after|in)\s+(20\d{2})/);
+    if (sinceMatch) {
+      pushedAfter = `${sinceMatch[1]}-01-01`;
+    }
+  }
+
+  const language = LANGUAGES.find((lang) => new RegExp(`(^|\\W)${lang.replace(/[+#]/g, '\\$&')}(\\W|$)`, 'i').test(text)) ?? null;
+  const licenseKey = Object.keys(LICENSES).find((key) => new RegExp(`\\b${key}\\b`).test(lower));
+  const filenames = [...new Set(text.match(/\b[\w.-]+\.(?:toml|jsonc?|ya?ml|ts|js|mjs|md)\b/gi) ?? [])].slice(0, 3);
+
+  const keywords = text
+    .replace(/"/g, ' ')
+    .replace(/(?:>|over|more than|at least)\s*\d+\s*stars?/gi, ' ')
+    .split(/\s+/)
+    .map((token) => token.replace(/[^\w.-]/g, '').trim())
+    .filter((token) => token && !/^\d+$/.test(token) && !STOPWORDS.has(token.toLowerCase()))
+    .filter((token) => token.toLowerCase() !== language?.toLowerCase() && token.toLowerCase() !== licenseKey)
+    .filter((token) => !filenames.includes(token))
+    .slice(0, 8);
+
+  return {
+    keywords,
+    language,
+    min_stars: minStars,
+    pushed_after: pushedAfter,
+    topics: [],
+    license: licenseKey ? LICENSES[licenseKey] : null,
+    exclude_archived: true,
+    filenames,
+    paths: [],
+    code_terms: [],
+  };
+}
+
+async function requestIntent(
+  env: JudgeEnv,
+  naturalLanguageRequest: string,
+  query: string,
+  options: { llm?: LlmSelection | null; signal?: AbortSignal; onLlmCall?: LlmCallSink }
+): Promise<SearchIntent> {
+  const { content } = await chatCompletion(env, {
+    purpose: 'planner',
+    errorCode: 'planner_api_error',
+    schema: SEARCH_INTENT_JSON_SCHEMA,
+    llm: options.llm,
+    stub: () => heuristicIntent(query),
+    messages: [
+      { role: 'system', content: PLANNER_PROMPT },
+      {
+        role: 'user',
+        content: JSON.stringify({ today: new Date().toISOString().slice(0, 10), natural_language_request: naturalLanguageRequest, query }),
+      },
+    ],
+    signal: options.signal,
+    onCall: options.onLlmCall,
+  });
+  if (!content) {
+    throw new Error('planner_empty_response');
+  }
+  return SearchIntentSchema.parse(JSON.parse(content));
+}
+
+export function countOperators(query: string): number {
+  return (query.replace(/"[^"]*"/g, '').match(/\b(AND|OR|NOT)\b/g) ?? []).length;
+}
+
+export function isValidSearchQuery(query: string): boolean {
+  return query.length > 0 && query.length <= MAX_QUERY_LENGTH && countOperators(query) <= MAX_QUERY_OPERATORS;
+}
+
+function formatTerm(term: string): string {
+  const cleaned = term.replace(/"/g, '').trim();
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+function intentQualifiers(intent: SearchIntent): Array<{ label: string; value: string }> {
+  const qualifiers: Array<{ label: string; value: string }> = [];
+  if (intent.language) qualifiers.push({ label: 'language', value: `language:${formatTerm(intent.language)}` });
+  if (intent.min_stars !== null) qualifiers.push({ label: 'stars', value: `stars:>${intent.min_stars}` });
+  if (intent.pushed_after) qualifiers.push({ label: 'pushed', value: `pushed:>${intent.pushed_after}` });
+  if (intent.license) qualifiers.push({ label: 'license', value: `license:${intent.license.toLowerCase()}` });
+  if (intent.exclude_archived) qualifiers.push({ label: 'archived', value: 'archived:false' });
+  for (const topic of intent.topics) {
+    qualifiers.push({ label: 'topic', value: `topic:${topic.toLowerCase().replace(/\s+/g, '-')}` });
+  }
+  return qualifiers;
+}
+
+/**
+ * Compiles one query per template and trims it to GitHub's limits: keywords are dropped from the
+ * end first, then qualifiers from the least important (topics) upwards. Anything removed is
+ * reported in `dropped` so the persisted plan explains the final query.
+ */
+export function compileSearchQueries(
+  intent: SearchIntent,
+  templates: Array<(query: string) => string>,
+  fallbackQuery: string
+): { queries: string[]; dropped: string[] } {
+  const dropped = new Set<string>();
+  const queries: string[] = [];
+  for (const [index, template] of templates.entries()) {
+    const keywords = intent.keywords.map(formatTerm);
+    const qualifiers = intentQualifiers(intent);
+    const render = () => [template(keywords.join(' ')).trim(), ...qualifiers.map((q) => q.value)].filter(Boolean).join(' ');
+    let query = render();
+    while (!isValidSearchQuery(query) && keywords.length > 1) {
+      dropped.add(`keyword:${keywords.pop()}`);
+      query = render();
+    }
+    while (!isValidSearchQuery(query) && qualifiers.length) {
+      dropped.add(qualifiers.pop()!.value);
+      query = render();
+    }
+    if (isValidSearchQuery(query)) {
+      queries.push(query);
+    } else {
+      dropped.add(`template:${index}`);
+    }
+  }
+  if (!queries.length) {
+    const fallback = intent.keywords.map(formatTerm).join(' ').slice(0, MAX_QUERY_LENGTH);
+    queries.push(fallback || fallbackQuery.slice(0, MAX_QUERY_LENGTH));
+  }
+  return { queries, dropped: [...dropped] };
+}
+
+/**
+ * Code search queries: one per requested filename (or a single query when none was planned), using
+ * the literal code terms when present and falling back to the keywords otherwise. Repository-level
+ * qualifiers such as stars or pushed dates are not supported by `/search/code` and are left out.
+ */
+export function compileCodeQueries(intent: SearchIntent, fallbackQuery: string): { queries: string[]; dropped: string[] } {
+  const dropped = new Set<string>();
+  const queries: string[] = [];
+  const filenames: Array<string | null> = intent.filenames.length ? intent.filenames : [null];
+  for (const filename of filenames) {
+    const terms = (intent.code_terms.length ? intent.code_terms : intent.keywords).map(formatTerm);
+    const qualifiers = [
+      filename ? `filename:${filename}` : null,
+      ...intent.paths.map((path) => `path:${path}`),
+      intent.language ? `language:${formatTerm(intent.language)}` : null,
+    ].filter((value): value is string => Boolean(value));
+    const render = () => [...terms, ...qualifiers].join(' ');
+    let query = render();
+    while (!isValidSearchQuery(query) && terms.length > 1) {
+      dropped.add(`term:${terms.pop()}`);
+      query = render();
+    }
+    if (isValidSearchQuery(query)) {
+      queries.push(query);
+    }
+  }
+  if (!queries.length) {
+    queries.push(fallbackQuery.slice(0, MAX_QUERY_LENGTH));
+  }
+  return { queries, dropped: [...dropped] };
+}
+
+/**
+ * Profile defaults only fill qualifiers the planner left empty; `exclude_archived` follows the
+ * profile whenever the profile sets it.
+ */
+export function applyDefaultFilters(intent: SearchIntent, filters: ProfileDefaultFilters): SearchIntent {
+  return {
+    ...intent,
+    language: intent.language ?? filters.language ?? null,
+    min_stars: intent.min_stars ?? filters.min_stars ?? null,
+    pushed_after: intent.pushed_after ?? filters.pushed_after ?? null,
+    topics: intent.topics.length ? intent.topics : (filters.topics ?? []).slice(0, 3),
+    license: intent.license ?? filters.license ?? null,
+    exclude_archived: filters.exclude_archived ?? intent.exclude_archived,
+  };
+}
+
+export async function planSearch(
+  env: JudgeEnv,
+  request: {
+    naturalLanguageRequest: string;
+    query: string;
+    baseKeywords: boolean;
+    profile: SearchProfile;
+    mode?: SearchMode;
+    llm?: LlmSelection | null;
+    signal?: AbortSignal;
+    onLlmCall?: LlmCallSink;
+  },
+  onFallback?: (error: unknown) => void
+): Promise<PlannedSearch> {
+  let intent: SearchIntent;
+  let planner: PlannedSearch['planner'] = 'llm';
+  try {
+    intent = await requestIntent(env, request.naturalLanguageRequest, request.query, request);
+  } catch (err) {
+    onFallback?.(err);
+    intent = heuristicIntent(request.query);
+    planner = 'heuristic';
+  }
+  intent = applyDefaultFilters(intent, request.profile.default_filters);
+  if (request.mode === 'code') {
+    const { queries, dropped } = compileCodeQueries(intent, request.query);
+    return { intent, planner, queries, dropped };
+  }
+  const templates = request.baseKeywords
+    ? request.profile.query_templates.map((template) => (keywords: string) => renderQueryTemplate(template, keywords))
+    : [(keywords: string) => keywords];
+  const { queries, dropped } = compileSearchQueries(intent, templates, request.query);
+  return { intent, planner, queries, dropped };
+}
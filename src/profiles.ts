@@ -0,0 +1,105 @@
+import { Database } from './db';
+import type { SearchProfileRow } from './db';
+import { llmSelectionFromRow } from './llm';
+import type { LlmSelection } from './llm';
+
+export const BUILTIN_PROFILE_ID = 'cloudflare-workers';
+
+export type ScaffoldGeneratorKind = 'cloudflare-worker' | 'generic';
+
+export interface ProfileDefaultFilters {
+  language?: string;
+  min_stars?: number;
+  pushed_after?: string;
+  topics?: string[];
+  license?: string;
+  exclude_archived?: boolean;
+}
+
+export interface ScaffoldGeneratorConfig {
+  kind: ScaffoldGeneratorKind;
+  system_prompt: string;
+}
+
+export interface SearchProfile {
+  profile_id: string;
+  name: string;
+  description: string | null;
+  query_templates: string[];
+  judge_rubric: string;
+  default_filters: ProfileDefaultFilters;
+  scaffold_generator: ScaffoldGeneratorConfig;
+  /** Provider/model for the planner, judge and scaffold plan; null uses the Worker defaults. */
+  llm: LlmSelection | null;
+  built_in: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Mirrors the row seeded by migrations/004_search_profiles.sql so searches keep working even if the
+ * seed was skipped or the row was removed by hand.
+ */
+export const BUILTIN_CLOUDFLARE_PROFILE: SearchProfile = {
+  profile_id: BUILTIN_PROFILE_ID,
+  name: 'Cloudflare Workers',
+  description: 'Cloudflare Workers projects and templates (TypeScript/JavaScript, Hono, itty-router).',
+  query_templates: [
+    '"Cloudflare Workers" AND {query}',
+    '(topic:cloudflare-workers OR in:readme "cloudflare workers") AND (language:TypeScript OR language:JavaScript) AND {query}',
+    '(hono OR "itty-router") AND (in:readme cloudflare) AND {query}',
+  ],
+  judge_rubric:
+    'The user request is about Cloudflare Workers. Use rubric: 0.0 off-topic, 0.3 adjacent, 0.6 useful, 0.8 strong, 0.9+ excellent.',
+  default_filters: { exclude_archived: true },
+  scaffold_generator: {
+    kind: 'cloudflare-worker',
+    system_prompt:
+      'You design production-ready Cloudflare Worker scaffolds. Given repository inspirations and a user prompt, produce JSON with doc_queries (<=5) and plan (<=8 bullet summaries).',
+  },
+  llm: null,
+  built_in: true,
+};
+
+/**
+ * Substitutes `{query}` in a stored template. When the planner produced no keywords the
+ * placeholder and the operator joining it are removed so the query stays valid.
+ */
+export function renderQueryTemplate(template: string, query: string): string {
+  if (query) {
+    return template.split('{query}').join(query);
+  }
+  return template
+    .replace(/\s*\b(AND|OR)\s+\{query\}/g, '')
+    .replace(/\{query\}\s*\b(AND|OR)\s*/g, '')
+    .replace(/\{query\}/g, '')
+    .trim();
+}
+
+export function serializeProfile(row: SearchProfileRow): SearchProfile {
+  return {
+    profile_id: row.profile_id,
+    name: row.name,
+    description: row.description,
+    query_templates: JSON.parse(row.query_templates),
+    judge_rubric: row.judge_rubric,
+    default_filters: row.default_filters ? JSON.parse(row.default_filters) : {},
+    scaffold_generator: JSON.parse(row.scaffold_generator),
+    llm: llmSelectionFromRow(row),
+    built_in: Boolean(row.built_in),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export async function resolveProfile(db: Database, profileId?: string | null): Promise<SearchProfile> {
+  const id = profileId ?? BUILTIN_PROFILE_ID;
+  const row = await db.getProfile(id);
+  if (row) {
+    return serializeProfile(row);
+  }
+  if (id !== BUILTIN_PROFILE_ID) {
+    throw new Error(`unknown_profile ${id}`);
+  }
+  return BUILTIN_CLOUDFLARE_PROFILE;
+}
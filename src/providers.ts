@@ -0,0 +1,335 @@
+import { fetchRepoFile, runGitHubCodeSearch, runGitHubSearch } from './github';
+import type { GitHubRepository, GitHubSearchResponse } from './github';
+import { createGitHubClient, GitHubClient } from './github_client';
+import type { GitHubBudget, GitHubClientOptions, GitHubEnv } from './github_client';
+import { countContributors, hydrateReadmes, hydrateRepos } from './hydrator';
+import type { HydrationOptions, HydrationResult } from './hydrator';
+import type { RepoFileSource } from './inspector';
+import type { PlannedSearch, SearchMode } from './planner';
+
+export const SEARCH_PROVIDERS = ['github', 'github_enterprise', 'gitlab', 'gitea'] as const;
+export type ProviderKind = (typeof SEARCH_PROVIDERS)[number];
+
+export interface ProviderEnv extends GitHubEnv {
+  GITHUB_ENTERPRISE_URL?: string;
+  GITHUB_ENTERPRISE_TOKEN?: string;
+  GITLAB_API_URL?: string;
+  GITLAB_TOKEN?: string;
+  GITEA_API_URL?: string;
+  GITEA_TOKEN?: string;
+}
+
+/**
+ * A forge that can discover repositories. Results are normalised into `GitHubRepository` (and from
+ * there into `RepoRow`) so the judge, caches and results API do not care where a repo came from.
+ */
+export interface SearchProvider extends RepoFileSource {
+  readonly kind: ProviderKind;
+  readonly supportsCodeSearch: boolean;
+  /** Turns the planner output into this forge's query syntax. */
+  compileQueries(plan: PlannedSearch, fallbackQuery: string): string[];
+  search(queries: string[], options: { maxResults: number; mode: SearchMode }): Promise<GitHubSearchResponse[]>;
+  hydrate(repos: GitHubRepository[], options: HydrationOptions): Promise<HydrationResult>;
+  countContributors?(
+    repos: GitHubRepository[],
+    known: Map<string, { head_sha: string | null; contributors_count: number }>
+  ): Promise<Map<string, number | null>>;
+  budgets?(): Promise<GitHubBudget[]>;
+}
+
+export class ForgeApiError extends Error {
+  constructor(
+    readonly provider: ProviderKind,
+    readonly status: number,
+    body: string
+  ) {
+    super(`${provider} API error ${status}: ${body}`);
+    this.name = 'ForgeApiError';
+  }
+}
+
+/** Forges without GitHub's qualifier syntax get the planner's keywords as a plain text query. */
+function keywordQueries(plan: PlannedSearch, fallbackQuery: string): string[] {
+  const keywords = plan.intent.keywords.length
+    ? plan.intent.keywords
+    : fallbackQuery.split(/\s+/).filter((term) => term && !term.includes(':'));
+  return [keywords.join(' ').trim() || fallbackQuery];
+}
+
+/** github.com and GitHub Enterprise Server share the REST and GraphQL APIs; only the base URL differs. */
+export class GitHubProvider implements SearchProvider {
+  readonly supportsCodeSearch = true;
+
+  constructor(
+    readonly kind: 'github' | 'github_enterprise',
+    readonly client: GitHubClient
+  ) {}
+
+  get graphqlClient(): GitHubClient {
+    return this.client;
+  }
+
+  compileQueries(plan: PlannedSearch): string[] {
+    return plan.queries;
+  }
+
+  async search(queries: string[], options: { maxResults: number; mode: SearchMode }): Promise<GitHubSearchResponse[]> {
+    const responses =
+      options.mode === 'code'
+        ? await runGitHubCodeSearch({ queries, maxResults: options.maxResults, client: this.client })
+        : await runGitHubSearch({ queries, maxResults: options.maxResults, client: this.client });
+    return responses.map((response) => ({ ...response, items: response.items.map((repo) => this.tag(repo)) }));
+  }
+
+  hydrate(repos: GitHubRepository[], options: HydrationOptions): Promise<HydrationResult> {
+    return hydrateRepos(this.client, repos, options);
+  }
+
+  fetchFile(repo: GitHubRepository, path: string): Promise<string | null> {
+    return fetchRepoFile(repo.full_name, path, this.client);
+  }
+
+  countContributors(
+    repos: GitHubRepository[],
+    known: Map<string, { head_sha: string | null; contributors_count: number }>
+  ): Promise<Map<string, number | null>> {
+    return countContributors(this.client, repos, known);
+  }
+
+  budgets(): Promise<GitHubBudget[]> {
+    return this.client.budgets();
+  }
+
+  /** Enterprise node ids are only unique per instance, so they are namespaced by host. */
+  private tag(repo: GitHubRepository): GitHubRepository {
+    if (this.kind === 'github') {
+      return { ...repo, provider: this.kind };
+    }
+    const id = `${new URL(this.client.baseUrl).host}:${repo.node_id}`;
+    return { ...repo, id, node_id: id, provider: this.kind };
+  }
+}
+
+/**
+ * Minimal paginated JSON client shared by the GitLab and Gitea adapters. Neither API is called
+ * often enough here to need the rate-limit handling of the GitHub client.
+ */
+abstract class RestForgeProvider implements SearchProvider {
+  abstract readonly kind: ProviderKind;
+  readonly supportsCodeSearch = false;
+  readonly baseUrl: string;
+
+  constructor(
+    baseUrl: string,
+    protected readonly headers: Record<string, string>,
+    protected readonly signal?: AbortSignal
+  ) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  protected abstract searchPage(
+    query: string,
+    page: number,
+    perPage: number
+  ): Promise<{ items: GitHubRepository[]; totalCount: number; hasMore: boolean }>;
+  protected abstract readmeUrl(repo: GitHubRepository): string;
+  protected abstract fileUrl(repo: GitHubRepository, path: string): string;
+
+  protected async request(path: string): Promise<Response> {
+    const url = path.startsWith('http') ? path : `${this.baseUrl}${path}`;
+    const res = await fetch(url, { headers: { 'User-Agent': 'GitHub-NL-Search-Worker', ...this.headers }, signal: this.signal });
+    if (!res.ok) {
+      throw new ForgeApiError(this.kind, res.status, await res.text());
+    }
+    return res;
+  }
+
+  protected async fetchText(url: string): Promise<string | null> {
+    try {
+      return await (await this.request(url)).text();
+    } catch (err) {
+      if (err instanceof ForgeApiError && err.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  compileQueries(plan: PlannedSearch, fallbackQuery: string): string[] {
+    return keywordQueries(plan, fallbackQuery);
+  }
+
+  async search(queries: string[], options: { maxResults: number; mode: SearchMode }): Promise<GitHubSearchResponse[]> {
+    if (options.mode === 'code') {
+      throw new Error(`unsupported_mode code search is not available for ${this.kind}`);
+    }
+    const perPage = Math.min(50, options.maxResults);
+    const seen = new Set<string>();
+    const responses: GitHubSearchResponse[] = [];
+    for (const query of queries) {
+      const response: GitHubSearchResponse = { query, items: [], totalCount: 0, incompleteResults: false };
+      for (let page = 1; seen.size < options.maxResults; page++) {
+        const result = await this.searchPage(query, page, perPage);
+        response.totalCount = result.totalCount;
+        for (const repo of result.items) {
+          if (seen.has(repo.node_id) || seen.size >= options.maxResults) continue;
+          seen.add(repo.node_id);
+          response.items.push(repo);
+        }
+        if (!result.hasMore || !result.items.length) break;
+      }
+      responses.push(response);
+    }
+    return responses;
+  }
+
+  hydrate(repos: GitHubRepository[], options: HydrationOptions): Promise<HydrationResult> {
+    return hydrateReadmes(repos, (repo) => this.fetchText(this.readmeUrl(repo)), options);
+  }
+
+  fetchFile(repo: GitHubRepository, path: string): Promise<string | null> {
+    return this.fetchText(this.fileUrl(repo, path));
+  }
+}
+
+export class GitLabProvider extends RestForgeProvider {
+  readonly kind = 'gitlab' as const;
+
+  constructor(baseUrl: string, token?: string, signal?: AbortSignal) {
+    super(baseUrl, token ? { 'PRIVATE-TOKEN': token } : {}, signal);
+  }
+
+  protected async searchPage(query: string, page: number, perPage: number) {
+    const params = new URLSearchParams({
+      search: query,
+      order_by: 'star_count',
+      sort: 'desc',
+      per_page: String(perPage),
+      page: String(page),
+    });
+    const res = await this.request(`/projects?${params.toString()}`);
+    const items = ((await res.json()) as any[]).map((project) => this.mapProject(project));
+    return {
+      items,
+      totalCount: Number(res.headers.get('x-total') ?? items.length),
+      hasMore: Boolean(res.headers.get('x-next-page')),
+    };
+  }
+
+  protected readmeUrl(repo: GitHubRepository): string {
+    return this.fileUrl(repo, 'README.md');
+  }
+
+  protected fileUrl(repo: GitHubRepository, path: string): string {
+    const ref = encodeURIComponent(repo.default_branch || 'HEAD');
+    return `/projects/${encodeURIComponent(repo.full_name)}/repository/files/${encodeURIComponent(path)}/raw?ref=${ref}`;
+  }
+
+  private mapProject(project: any): GitHubRepository {
+    const id = `gitlab:${new URL(this.baseUrl).host}:${project.id}`;
+    return {
+      id,
+      node_id: id,
+      full_name: project.path_with_namespace,
+      html_url: project.web_url,
+      description: project.description ?? null,
+      stargazers_count: project.star_count ?? 0,
+      language: null,
+      topics: Array.isArray(project.topics) ? project.topics : Array.isArray(project.tag_list) ? project.tag_list : [],
+      updated_at: project.last_activity_at,
+      default_branch: project.default_branch,
+      license_spdx: project.license?.key ? String(project.license.key).toUpperCase() : null,
+      archived: Boolean(project.archived),
+      fork: Boolean(project.forked_from_project),
+      pushed_at: project.last_activity_at ?? null,
+      open_issues_count: project.open_issues_count ?? null,
+      provider: this.kind,
+    };
+  }
+}
+
+/** Gitea's API is also what Codeberg and Forgejo instances serve. */
+export class GiteaProvider extends RestForgeProvider {
+  readonly kind = 'gitea' as const;
+
+  constructor(baseUrl: string, token?: string, signal?: AbortSignal) {
+    super(baseUrl, token ? { Authorization: `token ${token}` } : {}, signal);
+  }
+
+  protected async searchPage(query: string, page: number, perPage: number) {
+    const params = new URLSearchParams({
+      q: query,
+      sort: 'stars',
+      order: 'desc',
+      limit: String(perPage),
+      page: String(page),
+    });
+    const res = await this.request(`/repos/search?${params.toString()}`);
+    const json = (await res.json()) as { data?: any[] };
+    const items = (json.data ?? []).map((repo) => this.mapRepo(repo));
+    const totalCount = Number(res.headers.get('x-total-count') ?? items.length);
+    return { items, totalCount, hasMore: page * perPage < totalCount };
+  }
+
+  protected readmeUrl(repo: GitHubRepository): string {
+    return this.fileUrl(repo, 'README.md');
+  }
+
+  protected fileUrl(repo: GitHubRepository, path: string): string {
+    const filePath = path.split('/').map(encodeURIComponent).join('/');
+    return `/repos/${repo.full_name}/raw/${filePath}?ref=${encodeURIComponent(repo.default_branch || 'HEAD')}`;
+  }
+
+  private mapRepo(repo: any): GitHubRepository {
+    const id = `gitea:${new URL(this.baseUrl).host}:${repo.id}`;
+    return {
+      id,
+      node_id: id,
+      full_name: repo.full_name,
+      html_url: repo.html_url,
+      description: repo.description || null,
+      stargazers_count: repo.stars_count ?? 0,
+      language: repo.language || null,
+      topics: Array.isArray(repo.topics) ? repo.topics : [],
+      updated_at: repo.updated_at,
+      default_branch: repo.default_branch,
+      license_spdx: Array.isArray(repo.licenses) && repo.licenses.length ? repo.licenses[0] : null,
+      archived: Boolean(repo.archived),
+      fork: Boolean(repo.fork),
+      pushed_at: repo.updated_at ?? null,
+      open_issues_count: repo.open_issues_count ?? null,
+      provider: this.kind,
+    };
+  }
+}
+
+export function isProviderConfigured(env: ProviderEnv, kind: ProviderKind): boolean {
+  return kind !== 'github_enterprise' || Boolean(env.GITHUB_ENTERPRISE_URL);
+}
+
+export function createSearchProvider(
+  env: ProviderEnv,
+  kind: ProviderKind = 'github',
+  options: Omit<GitHubClientOptions, 'tokens' | 'baseUrl'> = {}
+): SearchProvider {
+  switch (kind) {
+    case 'github':
+      return new GitHubProvider('github', createGitHubClient(env, options));
+    case 'github_enterprise':
+      if (!env.GITHUB_ENTERPRISE_URL) {
+        throw new Error('provider_not_configured GITHUB_ENTERPRISE_URL is not set');
+      }
+      return new GitHubProvider(
+        'github_enterprise',
+        new GitHubClient({
+          ...options,
+          baseUrl: env.GITHUB_ENTERPRISE_URL,
+          tokens: env.GITHUB_ENTERPRISE_TOKEN ? [env.GITHUB_ENTERPRISE_TOKEN] : [],
+        })
+      );
+    case 'gitlab':
+      return new GitLabProvider(env.GITLAB_API_URL ?? 'https://gitlab.com/api/v4', env.GITLAB_TOKEN, options.signal);
+    case 'gitea':
+      return new GiteaProvider(env.GITEA_API_URL ?? 'https://codeberg.org/api/v1', env.GITEA_TOKEN, options.signal);
+  }
+}
@@ -3,34 +3,169 @@ import { z } from 'zod';
 import { Database } from './db';
 import { errorResponse, jsonResponse, Logger } from './util';
 import { checkRateLimit, type RateLimiterBindings } from './ratelimit';
-import { runSearchLifecycle } from './search';
+import { buildAttemptTree, MAX_PRIOR_SESSIONS, MAX_SEARCH_RESULTS, reserveSearchAttempt } from './search';
+import { cancelSearchAttempt } from './cancellation';
+import { createSearchProvider, isProviderConfigured, SEARCH_PROVIDERS } from './providers';
+import { enqueueSearchJob, runSearchJob, serializeJob } from './jobs';
 import { createScaffold } from './scaffolder';
+import { isReadmeFresh } from './hydrator';
+import { searchLibrary } from './library';
+import { compileFullTextQuery, FullTextQueryError } from './fulltext';
 import type { ScaffolderEnv } from './scaffolder';
-import type { SearchExecutionContext } from './search';
+import { BUILTIN_PROFILE_ID, serializeProfile } from './profiles';
+import { serializeRubric } from './rubrics';
+import { SELECTABLE_LLM_PROVIDERS } from './llm';
+import type { JobsEnv, SearchJobParams } from './jobs';
+import { isPublicWebhookUrl, serializeWebhook, serializeWebhookDelivery, WEBHOOK_EVENTS } from './webhooks';
+import { SAVED_SEARCH_SCHEDULES, serializeSavedSearch, serializeSavedSearchRun, startSavedSearchRun } from './saved_searches';
 
-export interface ApiEnv extends ScaffolderEnv, SearchExecutionContext, RateLimiterBindings {
+export interface ApiEnv extends ScaffolderEnv, JobsEnv, RateLimiterBindings {
   DB: D1Database;
   ARTIFACTS: R2Bucket;
   ASSETS: Fetcher;
   WORKER_API_KEY?: string;
 }
 
+/** `?limit=` of the list endpoints: 20 when missing or not a number, clamped to 1–100. */
+const limitQuerySchema = z.coerce
+  .number()
+  .int()
+  .catch(20)
+  .transform((limit) => Math.min(100, Math.max(1, limit)));
+
+const llmSchema = z.object({
+  provider: z.enum(SELECTABLE_LLM_PROVIDERS),
+  model: z.string().min(1).max(200).optional(),
+});
+
+const rubricRefSchema = z.object({
+  rubric_id: z.string().min(1),
+  version: z.number().int().min(1).optional(),
+});
+
 const createSessionSchema = z.object({
   natural_language_request: z.string().min(1),
   session_id: z.string().uuid().optional(),
+  profile_id: z.string().min(1).optional(),
+  llm: llmSchema.optional(),
+  rubric: rubricRefSchema.optional(),
+});
+
+const sessionRubricSchema = z.object({
+  rubric: rubricRefSchema.nullable(),
 });
 
 const searchSchema = z.object({
   query: z.string().min(1),
+  profile_id: z.string().min(1).optional(),
+  mode: z.enum(['repositories', 'code']).optional(),
+  provider: z.enum(SEARCH_PROVIDERS).optional(),
   base_keywords: z.boolean().optional(),
-  max_results: z.number().int().min(1).max(100).optional(),
-  search_within_sessions: z.array(z.string()).optional(),
+  max_results: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional(),
+  search_within_sessions: z.array(z.string()).max(MAX_PRIOR_SESSIONS).optional(),
+  include_github: z.boolean().optional(),
   retry_policy: z
     .object({
       max_attempts: z.number().int().min(1).max(5).optional(),
       min_score: z.number().min(0).max(1).optional(),
+      budget_usd: z.number().positive().optional(),
+      strategy: z.enum(['linear', 'beam']).optional(),
+      beam_width: z.number().int().min(1).max(5).optional(),
+      beam_keep: z.number().int().min(1).max(5).optional(),
     })
     .optional(),
+  judge_ensemble: z
+    .object({
+      judges: z
+        .array(
+          z.object({
+            llm: llmSchema.optional(),
+            rubric: z.string().min(1).max(2000).optional(),
+            weight: z.number().positive().max(10).optional(),
+          })
+        )
+        .min(2)
+        .max(5),
+      aggregate: z.enum(['mean', 'median', 'weighted']).optional(),
+      disagreement_threshold: z.number().min(0).max(0.25).optional(),
+    })
+    .optional(),
+});
+
+const savedSearchSchema = searchSchema.extend({
+  name: z.string().min(1).max(200),
+  schedule: z.enum(['hourly', 'daily', 'weekly']),
+  enabled: z.boolean().default(true),
+  high_score: z.number().min(0).max(1).default(0.7),
+  filters: z
+    .object({
+      min_score: z.number().min(0).max(1).optional(),
+      exclude_archived: z.boolean().optional(),
+      exclude_forks: z.boolean().optional(),
+      license: z.array(z.string().min(1)).max(10).optional(),
+      pushed_after: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      binding: z.enum(['d1', 'kv', 'r2', 'durable_objects', 'queues', 'ai', 'vectorize']).optional(),
+      framework: z.string().min(1).optional(),
+    })
+    .default({}),
+});
+
+const webhookSchema = z.object({
+  url: z.string().url().refine(isPublicWebhookUrl, 'Must be an https URL on a public host name'),
+  secret: z.string().min(16).max(256).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  session_id: z.string().optional(),
+});
+
+const librarySearchSchema = z.object({
+  query: z.string().min(1),
+  top_k: z.number().int().min(1).max(50).optional(),
+});
+
+const profileSchema = z.object({
+  profile_id: z.string().regex(/^[a-z0-9][a-z0-9-]{1,62}$/),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  query_templates: z.array(z.string().min(1).max(200)).min(1).max(5),
+  judge_rubric: z.string().min(1).max(2000),
+  llm: llmSchema.nullable().optional(),
+  default_filters: z
+    .object({
+      language: z.string().optional(),
+      min_stars: z.number().int().min(0).optional(),
+      pushed_after: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      topics: z.array(z.string()).max(3).optional(),
+      license: z.string().optional(),
+      exclude_archived: z.boolean().optional(),
+    })
+    .default({}),
+  scaffold_generator: z.object({
+    kind: z.enum(['cloudflare-worker', 'generic']),
+    system_prompt: z.string().min(1).max(4000),
+  }),
+});
+
+const rubricVersionSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(1000).nullable().optional(),
+  instructions: z.string().min(1).max(2000).nullable().optional(),
+  criteria: z
+    .array(
+      z.object({
+        key: z.string().regex(/^[a-z][a-z0-9_]{0,39}$/),
+        description: z.string().min(1).max(300),
+        weight: z.number().positive().max(10).default(1),
+      })
+    )
+    .min(1)
+    .max(8)
+    .refine((criteria) => new Set(criteria.map((criterion) => criterion.key)).size === criteria.length, {
+      message: 'Criterion keys must be unique',
+    }),
+});
+
+const rubricSchema = rubricVersionSchema.extend({
+  rubric_id: z.string().regex(/^[a-z0-9][a-z0-9-]{1,62}$/),
 });
 
 const scaffoldSchema = z.object({
@@ -97,12 +232,15 @@ export function createApiRouter() {
 
   app.get('/api/health', (c) => c.json({ status: 'ok', timestamp: new Date().toISOString() }));
 
-  app.get('/api/metrics', (c) =>
-    c.json({
+  app.get('/api/metrics', async (c) => {
+    const db = c.get('db');
+    const budgets = await db.listGitHubBudgets();
+    return c.json({
       timestamp: new Date().toISOString(),
-      version: '1.0.0'
-    })
-  );
+      version: '1.0.0',
+      github_rate_limits: budgets,
+    });
+  });
 
   app.post('/api/sessions', async (c) => {
     const logger = c.get('logger');
@@ -112,8 +250,20 @@ export function createApiRouter() {
       return errorResponse('invalid_request', 'Invalid session payload', 400, parsed.error.format());
     }
     const db = c.get('db');
+    const profileId = parsed.data.profile_id ?? BUILTIN_PROFILE_ID;
+    if (profileId !== BUILTIN_PROFILE_ID && !(await db.getProfile(profileId))) {
+      return errorResponse('invalid_request', `Unknown profile ${profileId}`, 400);
+    }
+    let rubric: { rubricId: string; version: number } | null = null;
+    if (parsed.data.rubric) {
+      const row = await db.getRubric(parsed.data.rubric.rubric_id, parsed.data.rubric.version);
+      if (!row) {
+        return errorResponse('invalid_request', `Unknown rubric ${parsed.data.rubric.rubric_id}`, 400);
+      }
+      rubric = { rubricId: row.rubric_id, version: row.version };
+    }
     const sessionId = parsed.data.session_id ?? crypto.randomUUID();
-    const session = await db.createSession(sessionId, parsed.data.natural_language_request);
+    const session = await db.createSession(sessionId, parsed.data.natural_language_request, profileId, parsed.data.llm, rubric);
     logger.info('session_created', { session_id: sessionId });
     return jsonResponse(session, { status: 201 });
   });
@@ -136,14 +286,40 @@ export function createApiRouter() {
     const latest = await db.getLatestAttemptSummary(sessionId);
     const attemptsCount = await db.countAttempts(sessionId);
     const resultsCount = await db.countResults(sessionId);
+    const llmUsage = await db.getLlmUsage(sessionId);
     return jsonResponse({
       session,
       attempts_count: attemptsCount,
       results_count: resultsCount,
       latest_attempt: latest,
+      llm_usage: llmUsage,
     });
   });
 
+  app.put('/api/sessions/:session_id/rubric', async (c) => {
+    const sessionId = c.req.param('session_id');
+    const db = c.get('db');
+    const session = await db.getSession(sessionId);
+    if (!session || session.deleted_at) {
+      return errorResponse('not_found', 'Session not found', 404);
+    }
+    const body = await c.req.json();
+    const parsed = sessionRubricSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse('invalid_request', 'Invalid rubric payload', 400, parsed.error.format());
+    }
+    if (!parsed.data.rubric) {
+      await db.setSessionRubric(sessionId, null);
+      return jsonResponse(await db.getSession(sessionId));
+    }
+    const row = await db.getRubric(parsed.data.rubric.rubric_id, parsed.data.rubric.version);
+    if (!row) {
+      return errorResponse('invalid_request', `Unknown rubric ${parsed.data.rubric.rubric_id}`, 400);
+    }
+    await db.setSessionRubric(sessionId, { rubricId: row.rubric_id, version: row.version });
+    return jsonResponse(await db.getSession(sessionId));
+  });
+
   app.post('/api/sessions/:session_id/search', async (c) => {
     const sessionId = c.req.param('session_id');
     const db = c.get('db');
@@ -160,35 +336,210 @@ export function createApiRouter() {
     }
 
     const logger = c.get('logger').withContext({ session_id: sessionId, query: parsed.data.query });
-    logger.info('search_started');
-
-    const start = Date.now();
-    const lifecycle = await runSearchLifecycle(c.env, db, {
+    const profileId = parsed.data.profile_id ?? session.profile_id;
+    if (profileId !== BUILTIN_PROFILE_ID && !(await db.getProfile(profileId))) {
+      return errorResponse('invalid_request', `Unknown profile ${profileId}`, 400);
+    }
+    const provider = parsed.data.provider ?? 'github';
+    if (!isProviderConfigured(c.env, provider)) {
+      return errorResponse('invalid_request', `Provider ${provider} is not configured`, 400);
+    }
+    if (parsed.data.mode === 'code' && !createSearchProvider(c.env, provider).supportsCodeSearch) {
+      return errorResponse('invalid_request', `Code search is not supported by ${provider}`, 400);
+    }
+    const attempt = await reserveSearchAttempt(c.env, db, sessionId, parsed.data.query, profileId, parsed.data.mode, provider);
+    const jobId = crypto.randomUUID();
+    const params: SearchJobParams = { ...parsed.data, profile_id: profileId };
+    const job = await db.createSearchJob({
+      jobId,
       sessionId,
       query: parsed.data.query,
-      naturalLanguageRequest: session.natural_language_request,
-      baseKeywords: parsed.data.base_keywords,
-      maxResults: parsed.data.max_results,
-      searchWithinSessions: parsed.data.search_within_sessions,
-      retryPolicy: parsed.data.retry_policy,
-      logger,
+      params,
+      attemptId: attempt.id,
+      resultGroup: attempt.result_group,
     });
+    logger.info('search_started', { job_id: jobId, attempt_id: attempt.id });
 
-    const first = lifecycle.attempts[0];
     const response: any = {
-      attempt_id: first?.attemptId,
-      result_group: first?.resultGroup,
-      expanded_queries: first?.expandedQueries ?? [],
+      job_id: job.job_id,
+      status: job.status,
+      attempt_id: attempt.id,
+      result_group: attempt.result_group,
+      expanded_queries: [],
       started_at: new Date().toISOString(),
     };
     if (wait) {
+      const lifecycle = await runSearchJob(c.env, db, jobId, logger, (promise) => c.executionCtx.waitUntil(promise));
+      const finished = await db.getSearchJob(jobId);
+      response.status = finished?.status ?? response.status;
+      response.expanded_queries = lifecycle?.attempts[0]?.expandedQueries ?? [];
       response.lifecycle = lifecycle;
+      return jsonResponse(response, { status: 202 });
     }
-    const latency = Date.now() - start;
-    logger.info('search_finished', { latency, cost: lifecycle.totalCost, attempts: lifecycle.attempts.length });
+    await enqueueSearchJob(c.env, c.executionCtx, jobId, logger);
     return jsonResponse(response, { status: 202 });
   });
 
+  app.get('/api/sessions/:session_id/jobs', async (c) => {
+    const sessionId = c.req.param('session_id');
+    const db = c.get('db');
+    const session = await db.getSession(sessionId);
+    if (!session) {
+      return errorResponse('not_found', 'Session not found', 404);
+    }
+    const limit = limitQuerySchema.parse(c.req.query('limit'));
+    const cursor = c.req.query('cursor');
+    const result = await db.listSearchJobs({ sessionId, limit, cursor });
+    return jsonResponse({ items: result.items.map(serializeJob), nextCursor: result.nextCursor });
+  });
+
+  app.get('/api/jobs/:job_id', async (c) => {
+    const db = c.get('db');
+    const job = await db.getSearchJob(c.req.param('job_id'));
+    if (!job) {
+      return errorResponse('not_found', 'Job not found', 404);
+    }
+    return jsonResponse(serializeJob(job));
+  });
+
+  app.post('/api/sessions/:session_id/saved-searches', async (c) => {
+    const sessionId = c.req.param('session_id');
+    const db = c.get('db');
+    const session = await db.getSession(sessionId);
+    if (!session) {
+      return errorResponse('not_found', 'Session not found', 404);
+    }
+    const body = await c.req.json();
+    const parsed = savedSearchSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse('invalid_request', 'Invalid saved search payload', 400, parsed.error.format());
+    }
+    const { name, schedule, enabled, high_score, filters, query, ...params } = parsed.data;
+    const profileId = params.profile_id ?? session.profile_id;
+    if (profileId !== BUILTIN_PROFILE_ID && !(await db.getProfile(profileId))) {
+      return errorResponse('invalid_request', `Unknown profile ${profileId}`, 400);
+    }
+    if (!isProviderConfigured(c.env, params.provider ?? 'github')) {
+      return errorResponse('invalid_request', `Provider ${params.provider ?? 'github'} is not configured`, 400);
+    }
+    const row = await db.createSavedSearch({
+      savedSearchId: crypto.randomUUID(),
+      sessionId,
+      name,
+      query,
+      params: { ...params, profile_id: profileId },
+      filters,
+      highScore: high_score,
+      schedule,
+      enabled,
+    });
+    return jsonResponse(serializeSavedSearch(row), { status: 201 });
+  });
+
+  app.get('/api/sessions/:session_id/saved-searches', async (c) => {
+    const sessionId = c.req.param('session_id');
+    const db = c.get('db');
+    const session = await db.getSession(sessionId);
+    if (!session) {
+      return errorResponse('not_found', 'Session not found', 404);
+    }
+    const rows = await db.listSavedSearches(sessionId);
+    return jsonResponse({ items: rows.map(serializeSavedSearch) });
+  });
+
+  app.get('/api/saved-searches/:saved_search_id', async (c) => {
+    const db = c.get('db');
+    const row = await db.getSavedSearch(c.req.param('saved_search_id'));
+    if (!row) {
+      return errorResponse('not_found', 'Saved search not found', 404);
+    }
+    return jsonResponse(serializeSavedSearch(row));
+  });
+
+  app.delete('/api/saved-searches/:saved_search_id', async (c) => {
+    const savedSearchId = c.req.param('saved_search_id');
+    const db = c.get('db');
+    if (!(await db.getSavedSearch(savedSearchId))) {
+      return errorResponse('not_found', 'Saved search not found', 404);
+    }
+    await db.deleteSavedSearch(savedSearchId);
+    return new Response(null, { status: 204 });
+  });
+
+  app.post('/api/saved-searches/:saved_search_id/run', async (c) => {
+    const db = c.get('db');
+    const saved = await db.getSavedSearch(c.req.param('saved_search_id'));
+    if (!saved) {
+      return errorResponse('not_found', 'Saved search not found', 404);
+    }
+    await db.claimSavedSearch(saved.saved_search_id, SAVED_SEARCH_SCHEDULES[saved.schedule], true);
+    const runId = await db.createSavedSearchRun(saved.saved_search_id, 'manual');
+    await startSavedSearchRun(c.env, c.executionCtx, db, saved, runId, c.get('logger'));
+    return jsonResponse({ run_id: runId, saved_search_id: saved.saved_search_id, status: 'running' }, { status: 202 });
+  });
+
+  app.get('/api/saved-searches/:saved_search_id/runs', async (c) => {
+    const savedSearchId = c.req.param('saved_search_id');
+    const db = c.get('db');
+    if (!(await db.getSavedSearch(savedSearchId))) {
+      return errorResponse('not_found', 'Saved search not found', 404);
+    }
+    const limit = limitQuerySchema.parse(c.req.query('limit'));
+    const cursor = c.req.query('cursor');
+    const result = await db.listSavedSearchRuns({ savedSearchId, limit, cursor });
+    return jsonResponse({ items: result.items.map(serializeSavedSearchRun), nextCursor: result.nextCursor });
+  });
+
+  app.post('/api/webhooks', async (c) => {
+    const body = await c.req.json();
+    const parsed = webhookSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse('invalid_request', 'Invalid webhook payload', 400, parsed.error.format());
+    }
+    const db = c.get('db');
+    if (parsed.data.session_id && !(await db.getSession(parsed.data.session_id))) {
+      return errorResponse('not_found', 'Session not found', 404);
+    }
+    const secret = parsed.data.secret ?? `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, '');
+    const row = await db.createWebhook({
+      webhookId: crypto.randomUUID(),
+      sessionId: parsed.data.session_id ?? null,
+      url: parsed.data.url,
+      secret,
+      events: [...new Set(parsed.data.events)],
+    });
+    // A generated secret is shown once; a caller-supplied one is never echoed back.
+    return jsonResponse({ ...serializeWebhook(row), ...(parsed.data.secret ? {} : { secret }) }, { status: 201 });
+  });
+
+  app.get('/api/webhooks', async (c) => {
+    const db = c.get('db');
+    const rows = await db.listWebhooks(c.req.query('session_id') ?? undefined);
+    return jsonResponse({ items: rows.map(serializeWebhook) });
+  });
+
+  app.delete('/api/webhooks/:webhook_id', async (c) => {
+    const webhookId = c.req.param('webhook_id');
+    const db = c.get('db');
+    if (!(await db.getWebhook(webhookId))) {
+      return errorResponse('not_found', 'Webhook not found', 404);
+    }
+    await db.deleteWebhook(webhookId);
+    return new Response(null, { status: 204 });
+  });
+
+  app.get('/api/webhooks/:webhook_id/deliveries', async (c) => {
+    const webhookId = c.req.param('webhook_id');
+    const db = c.get('db');
+    if (!(await db.getWebhook(webhookId))) {
+      return errorResponse('not_found', 'Webhook not found', 404);
+    }
+    const limit = limitQuerySchema.parse(c.req.query('limit'));
+    const cursor = c.req.query('cursor');
+    const result = await db.listWebhookDeliveries({ webhookId, limit, cursor });
+    return jsonResponse({ items: result.items.map(serializeWebhookDelivery), nextCursor: result.nextCursor });
+  });
+
   app.get('/api/sessions/:session_id/attempts', async (c) => {
     const sessionId = c.req.param('session_id');
     const db = c.get('db');
@@ -197,9 +548,25 @@ export function createApiRouter() {
       return errorResponse('not_found', 'Session not found', 404);
     }
     const attempts = await db.listAttempts(sessionId);
+    if (c.req.query('view') === 'tree') {
+      return jsonResponse({ attempts: buildAttemptTree([...attempts].reverse()) });
+    }
     return jsonResponse({ attempts });
   });
 
+  app.post('/api/sessions/:session_id/attempts/:attempt_id/cancel', async (c) => {
+    const sessionId = c.req.param('session_id');
+    const db = c.get('db');
+    const attempt = await db.getSearchAttempt(Number(c.req.param('attempt_id')));
+    if (!attempt || attempt.session_id !== sessionId) {
+      return errorResponse('not_found', 'Attempt not found', 404);
+    }
+    if (!(await cancelSearchAttempt(db, attempt.id))) {
+      return errorResponse('conflict', `Attempt is already ${attempt.status}`, 409);
+    }
+    return jsonResponse({ attempt_id: attempt.id, status: 'cancelled' }, { status: 202 });
+  });
+
   app.get('/api/sessions/:session_id/results', async (c) => {
     const sessionId = c.req.param('session_id');
     const db = c.get('db');
@@ -210,6 +577,16 @@ export function createApiRouter() {
     const attemptId = c.req.query('attempt_id');
     const minScore = c.req.query('min_score');
     const query = c.req.query('q');
+    if (query) {
+      try {
+        compileFullTextQuery(query);
+      } catch (err) {
+        if (err instanceof FullTextQueryError) {
+          return errorResponse('invalid_query', err.message, 400);
+        }
+        throw err;
+      }
+    }
     const dedupe = c.req.query('dedupe') !== 'false';
     const sortParam = c.req.query('sort');
     const limit = Number(c.req.query('limit') ?? '20');
@@ -237,10 +614,171 @@ export function createApiRouter() {
       limit,
       cursor,
       excludeRepoIds,
+      binding: c.req.query('binding') ?? undefined,
+      framework: c.req.query('framework') ?? undefined,
+      excludeArchived: c.req.query('exclude_archived') === 'true',
+      excludeForks: c.req.query('exclude_forks') === 'true',
+      licenses: c.req.query('license')?.split(',').map((license) => license.trim()).filter(Boolean),
+      pushedAfter: c.req.query('pushed_after') ?? undefined,
+      needsReview: c.req.query('needs_review') === 'true',
     });
     return jsonResponse(result);
   });
 
+  app.get('/api/repos/:repo_id/readme', async (c) => {
+    const db = c.get('db');
+    const cached = await db.getCachedReadme(c.req.param('repo_id'));
+    if (!cached) {
+      return errorResponse('not_found', 'README not cached', 404);
+    }
+    const ttlSeconds = c.env.README_CACHE_TTL_SECONDS ? Number(c.env.README_CACHE_TTL_SECONDS) : undefined;
+    return jsonResponse({ ...cached, stale: !isReadmeFresh(cached, ttlSeconds) });
+  });
+
+  app.post('/api/library/search', async (c) => {
+    const body = await c.req.json();
+    const parsed = librarySearchSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse('invalid_request', 'Invalid library search payload', 400, parsed.error.format());
+    }
+    const items = await searchLibrary(c.env, c.get('db'), parsed.data.query, parsed.data.top_k ?? 10);
+    return jsonResponse({ items });
+  });
+
+  app.get('/api/profiles', async (c) => {
+    const db = c.get('db');
+    const rows = await db.listProfiles();
+    return jsonResponse({ items: rows.map(serializeProfile) });
+  });
+
+  app.post('/api/profiles', async (c) => {
+    const body = await c.req.json();
+    const parsed = profileSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse('invalid_request', 'Invalid profile payload', 400, parsed.error.format());
+    }
+    const db = c.get('db');
+    if (await db.getProfile(parsed.data.profile_id)) {
+      return errorResponse('conflict', 'Profile already exists', 409);
+    }
+    const row = await db.upsertProfile({
+      profileId: parsed.data.profile_id,
+      name: parsed.data.name,
+      description: parsed.data.description,
+      queryTemplates: parsed.data.query_templates,
+      judgeRubric: parsed.data.judge_rubric,
+      defaultFilters: parsed.data.default_filters,
+      scaffoldGenerator: parsed.data.scaffold_generator,
+      llm: parsed.data.llm,
+    });
+    return jsonResponse(serializeProfile(row), { status: 201 });
+  });
+
+  app.get('/api/profiles/:profile_id', async (c) => {
+    const db = c.get('db');
+    const row = await db.getProfile(c.req.param('profile_id'));
+    if (!row) {
+      return errorResponse('not_found', 'Profile not found', 404);
+    }
+    return jsonResponse(serializeProfile(row));
+  });
+
+  app.put('/api/profiles/:profile_id', async (c) => {
+    const profileId = c.req.param('profile_id');
+    const db = c.get('db');
+    const existing = await db.getProfile(profileId);
+    if (!existing) {
+      return errorResponse('not_found', 'Profile not found', 404);
+    }
+    if (existing.built_in) {
+      return errorResponse('forbidden', 'Built-in profiles are read-only', 403);
+    }
+    const body = await c.req.json();
+    const parsed = profileSchema.safeParse({ ...body, profile_id: profileId });
+    if (!parsed.success) {
+      return errorResponse('invalid_request', 'Invalid profile payload', 400, parsed.error.format());
+    }
+    const row = await db.upsertProfile({
+      profileId,
+      name: parsed.data.name,
+      description: parsed.data.description,
+      queryTemplates: parsed.data.query_templates,
+      judgeRubric: parsed.data.judge_rubric,
+      defaultFilters: parsed.data.default_filters,
+      scaffoldGenerator: parsed.data.scaffold_generator,
+      llm: parsed.data.llm,
+    });
+    return jsonResponse(serializeProfile(row));
+  });
+
+  app.delete('/api/profiles/:profile_id', async (c) => {
+    const profileId = c.req.param('profile_id');
+    const db = c.get('db');
+    const existing = await db.getProfile(profileId);
+    if (!existing) {
+      return errorResponse('not_found', 'Profile not found', 404);
+    }
+    if (existing.built_in) {
+      return errorResponse('forbidden', 'Built-in profiles cannot be deleted', 403);
+    }
+    if ((await db.countSessionsForProfile(profileId)) > 0) {
+      return errorResponse('conflict', 'Profile is still used by sessions', 409);
+    }
+    await db.deleteProfile(profileId);
+    return new Response(null, { status: 204 });
+  });
+
+  app.get('/api/rubrics', async (c) => {
+    const rows = await c.get('db').listRubrics();
+    return jsonResponse({ items: rows.map(serializeRubric) });
+  });
+
+  app.post('/api/rubrics', async (c) => {
+    const body = await c.req.json();
+    const parsed = rubricSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse('invalid_request', 'Invalid rubric payload', 400, parsed.error.format());
+    }
+    const db = c.get('db');
+    if (await db.getRubric(parsed.data.rubric_id)) {
+      return errorResponse('conflict', 'Rubric already exists; add a version instead', 409);
+    }
+    const row = await db.createRubricVersion({ rubricId: parsed.data.rubric_id, ...parsed.data });
+    return jsonResponse(serializeRubric(row), { status: 201 });
+  });
+
+  app.get('/api/rubrics/:rubric_id', async (c) => {
+    const version = c.req.query('version');
+    const row = await c.get('db').getRubric(c.req.param('rubric_id'), version ? Number(version) : null);
+    if (!row) {
+      return errorResponse('not_found', 'Rubric not found', 404);
+    }
+    return jsonResponse(serializeRubric(row));
+  });
+
+  app.get('/api/rubrics/:rubric_id/versions', async (c) => {
+    const rows = await c.get('db').listRubricVersions(c.req.param('rubric_id'));
+    if (!rows.length) {
+      return errorResponse('not_found', 'Rubric not found', 404);
+    }
+    return jsonResponse({ items: rows.map(serializeRubric) });
+  });
+
+  app.post('/api/rubrics/:rubric_id/versions', async (c) => {
+    const rubricId = c.req.param('rubric_id');
+    const db = c.get('db');
+    if (!(await db.getRubric(rubricId))) {
+      return errorResponse('not_found', 'Rubric not found', 404);
+    }
+    const body = await c.req.json();
+    const parsed = rubricVersionSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse('invalid_request', 'Invalid rubric payload', 400, parsed.error.format());
+    }
+    const row = await db.createRubricVersion({ rubricId, ...parsed.data });
+    return jsonResponse(serializeRubric(row), { status: 201 });
+  });
+
   app.post('/api/scaffolds', async (c) => {
     const body = await c.req.json();
     const parsed = scaffoldSchema.safeParse(body);
@@ -262,6 +800,7 @@ export function createApiRouter() {
       userPrompt: parsed.data.user_prompt,
       scaffoldTitle: parsed.data.scaffold_title,
       bindings: parsed.data.bindings,
+      waitUntil: (promise) => c.executionCtx.waitUntil(promise),
     });
     const latency = Date.now() - start;
     logger.info('scaffold_finished', { latency, scaffold_id: result.scaffold_id });
@@ -0,0 +1,50 @@
+import { Database } from './db';
+import type { JudgeRubricRow, SessionRow } from './db';
+
+export interface RubricCriterion {
+  /** Key of the sub-score in `criteria_scores`, e.g. `uses_d1`. */
+  key: string;
+  description: string;
+  weight: number;
+}
+
+export interface JudgeRubric {
+  rubric_id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  /** Scoring guidance that replaces the profile's judge rubric text; null keeps the profile's. */
+  instructions: string | null;
+  criteria: RubricCriterion[];
+  created_at: string;
+}
+
+export function serializeRubric(row: JudgeRubricRow): JudgeRubric {
+  return {
+    rubric_id: row.rubric_id,
+    version: row.version,
+    name: row.name,
+    description: row.description,
+    instructions: row.instructions,
+    criteria: JSON.parse(row.criteria),
+    created_at: row.created_at,
+  };
+}
+
+/** The rubric version pinned on the session, if any. */
+export async function resolveSessionRubric(db: Database, session: SessionRow | null): Promise<JudgeRubric | null> {
+  if (!session?.rubric_id) return null;
+  const row = await db.getRubric(session.rubric_id, session.rubric_version);
+  return row ? serializeRubric(row) : null;
+}
+
+/** Weighted mean of the criterion sub-scores; this is the repo's overall score under a rubric. */
+export function weightedCriteriaScore(criteria: RubricCriterion[], scores: Record<string, number>): number {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const weighted = criteria.reduce((sum, criterion) => sum + (scores[criterion.key] ?? 0) * criterion.weight, 0);
+  return totalWeight ? Math.round((weighted / totalWeight) * 1000) / 1000 : 0;
+}
+
+export function describeCriteria(criteria: RubricCriterion[]): string {
+  return criteria.map((criterion) => `${criterion.key} (weight ${criterion.weight}): ${criterion.description}`).join('; ');
+}
@@ -0,0 +1,306 @@
+import { Database } from './db';
+import type { RepoRow, SavedSearchRow, SavedSearchRunRow, SavedSearchSchedule } from './db';
+import { enqueueSearchJob } from './jobs';
+import type { JobsEnv, SearchJobParams } from './jobs';
+import { reserveSearchAttempt } from './search';
+import type { SearchLifecycleResult } from './search';
+import { chunkArray, Logger } from './util';
+
+/** SQLite datetime modifiers that move `next_run_at` forward after each run. */
+export const SAVED_SEARCH_SCHEDULES: Record<SavedSearchSchedule, string> = {
+  hourly: '+1 hour',
+  daily: '+1 day',
+  weekly: '+7 days',
+};
+
+/** Saved searches enqueued per cron tick; the rest stay due and are picked up by the next tick. */
+const MAX_RUNS_PER_TICK = 3;
+/** Results per attempt that make up a run's snapshot. */
+const RUN_RESULT_LIMIT = 500;
+
+/** The results endpoint filters, applied to a run's results before diffing. */
+export interface SavedSearchFilters {
+  min_score?: number;
+  exclude_archived?: boolean;
+  exclude_forks?: boolean;
+  license?: string[];
+  pushed_after?: string;
+  binding?: string;
+  framework?: string;
+}
+
+export interface SavedSearch {
+  saved_search_id: string;
+  session_id: string;
+  name: string;
+  query: string;
+  params: Omit<SearchJobParams, 'query'>;
+  filters: SavedSearchFilters;
+  high_score: number;
+  schedule: SavedSearchSchedule;
+  enabled: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+  created_at: string;
+}
+
+export interface SavedSearchDiffEntry {
+  repo_id: string;
+  full_name: string | null;
+  html_url: string | null;
+  score: number | null;
+  previous_score: number | null;
+}
+
+export interface SavedSearchDiff {
+  new: SavedSearchDiffEntry[];
+  newly_high: SavedSearchDiffEntry[];
+  dropped: SavedSearchDiffEntry[];
+}
+
+export interface SavedSearchRun {
+  run_id: number;
+  saved_search_id: string;
+  job_id: string | null;
+  status: SavedSearchRunRow['status'];
+  triggered_by: SavedSearchRunRow['triggered_by'];
+  result_count: number | null;
+  new_count: number | null;
+  newly_high_count: number | null;
+  dropped_count: number | null;
+  diff: SavedSearchDiff | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export function serializeSavedSearch(row: SavedSearchRow): SavedSearch {
+  return {
+    saved_search_id: row.saved_search_id,
+    session_id: row.session_id,
+    name: row.name,
+    query: row.query,
+    params: JSON.parse(row.params),
+    filters: JSON.parse(row.filters),
+    high_score: row.high_score,
+    schedule: row.schedule,
+    enabled: Boolean(row.enabled),
+    next_run_at: row.next_run_at,
+    last_run_at: row.last_run_at,
+    created_at: row.created_at,
+  };
+}
+
+export function serializeSavedSearchRun(row: SavedSearchRunRow): SavedSearchRun {
+  return {
+    run_id: row.id,
+    saved_search_id: row.saved_search_id,
+    job_id: row.job_id,
+    status: row.status,
+    triggered_by: row.triggered_by,
+    result_count: row.result_count,
+    new_count: row.new_count,
+    newly_high_count: row.newly_high_count,
+    dropped_count: row.dropped_count,
+    diff: row.diff ? JSON.parse(row.diff) : null,
+    error: row.error,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+  };
+}
+
+interface RunResult {
+  score: number | null;
+  repo: RepoRow | null;
+}
+
+/** Best score per repo across the run's attempts, after the saved filters. */
+async function collectRunResults(
+  db: Database,
+  sessionId: string,
+  attemptIds: number[],
+  filters: SavedSearchFilters
+): Promise<Map<string, RunResult>> {
+  const results = new Map<string, RunResult>();
+  for (const attemptId of attemptIds) {
+    const { items } = await db.listResults({
+      sessionId,
+      attemptId,
+      minScore: filters.min_score,
+      sort: 'score_desc',
+      limit: RUN_RESULT_LIMIT,
+      binding: filters.binding,
+      framework: filters.framework,
+      excludeArchived: filters.exclude_archived,
+      excludeForks: filters.exclude_forks,
+      licenses: filters.license,
+      pushedAfter: filters.pushed_after,
+    });
+    for (const item of items) {
+      const known = results.get(item.repo_id);
+      if (!known || (item.judge_relevance_score ?? -1) > (known.score ?? -1)) {
+        results.set(item.repo_id, { score: item.judge_relevance_score, repo: item.repo });
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * New repos were absent from the previous run (every repo is new on the first run); newly high
+ * repos were present but below `highScore`; dropped repos were in the previous run but not this one.
+ */
+async function diffRun(
+  db: Database,
+  current: Map<string, RunResult>,
+  previous: Map<string, number | null> | null,
+  highScore: number
+): Promise<SavedSearchDiff> {
+  const diff: SavedSearchDiff = { new: [], newly_high: [], dropped: [] };
+  for (const [repoId, { score, repo }] of current) {
+    const entry = { repo_id: repoId, full_name: repo?.full_name ?? null, html_url: repo?.html_url ?? null, score };
+    if (!previous?.has(repoId)) {
+      diff.new.push({ ...entry, previous_score: null });
+      continue;
+    }
+    const previousScore = previous.get(repoId) ?? null;
+    if ((score ?? 0) >= highScore && (previousScore ?? 0) < highScore) {
+      diff.newly_high.push({ ...entry, previous_score: previousScore });
+    }
+  }
+  const droppedIds = previous ? [...previous.keys()].filter((repoId) => !current.has(repoId)) : [];
+  const droppedRepos = new Map<string, RepoRow>();
+  for (const chunk of chunkArray(droppedIds, 50)) {
+    for (const repo of await db.getReposByIds(chunk)) droppedRepos.set(repo.id, repo);
+  }
+  diff.dropped = droppedIds.map((repoId) => ({
+    repo_id: repoId,
+    full_name: droppedRepos.get(repoId)?.full_name ?? null,
+    html_url: droppedRepos.get(repoId)?.html_url ?? null,
+    score: null,
+    previous_score: previous?.get(repoId) ?? null,
+  }));
+  const byScore = (a: SavedSearchDiffEntry, b: SavedSearchDiffEntry) => (b.score ?? -1) - (a.score ?? -1);
+  diff.new.sort(byScore);
+  diff.newly_high.sort(byScore);
+  return diff;
+}
+
+/**
+ * Starts the saved search as a regular search job in its session, handed to SEARCH_QUEUE like any
+ * other job; `completeSavedSearchRun` finishes the run once that job is done.
+ */
+export async function startSavedSearchRun(
+  env: JobsEnv,
+  ctx: ExecutionContext,
+  db: Database,
+  saved: SavedSearchRow,
+  runId: number,
+  logger: Logger
+): Promise<void> {
+  const runLogger = logger.withContext({ saved_search_id: saved.saved_search_id, run_id: runId, session_id: saved.session_id });
+  try {
+    const session = await db.getSession(saved.session_id);
+    if (!session || session.deleted_at) {
+      throw new Error('session_not_found');
+    }
+    const params = { ...(JSON.parse(saved.params) as Omit<SearchJobParams, 'query'>), query: saved.query };
+    const profileId = params.profile_id ?? session.profile_id;
+    const attempt = await reserveSearchAttempt(env, db, saved.session_id, saved.query, profileId, params.mode, params.provider);
+    const jobId = crypto.randomUUID();
+    await db.createSearchJob({
+      jobId,
+      sessionId: saved.session_id,
+      query: saved.query,
+      params: { ...params, profile_id: profileId },
+      attemptId: attempt.id,
+      resultGroup: attempt.result_group,
+    });
+    await db.setSavedSearchRunJob(runId, jobId);
+    await enqueueSearchJob(env, ctx, jobId, runLogger);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await db.finishSavedSearchRun(runId, { status: 'failed', error: message });
+    runLogger.error('saved_search_run_failed', { error: message });
+  }
+}
+
+/**
+ * Called after a search job ran: when the job belongs to a saved search run, snapshots the filtered
+ * results and records the diff against the previous completed run. `lifecycle` is null when the job
+ * failed, or when this delivery did not run it (then the run is left to the delivery that did).
+ */
+export async function completeSavedSearchRun(
+  db: Database,
+  jobId: string,
+  lifecycle: SearchLifecycleResult | null,
+  logger: Logger
+): Promise<void> {
+  const run = await db.getSavedSearchRunByJob(jobId);
+  if (!run || run.status !== 'running') return;
+  const runLogger = logger.withContext({ saved_search_id: run.saved_search_id, run_id: run.id, job_id: jobId });
+  try {
+    if (!lifecycle) {
+      const job = await db.getSearchJob(jobId);
+      if (job?.status !== 'failed') return;
+      throw new Error(job.error ?? 'search_job_failed');
+    }
+    // A partial snapshot would report every repo it missed as dropped.
+    if (lifecycle.cancelled) {
+      throw new Error('search_cancelled');
+    }
+    const saved = await db.getSavedSearch(run.saved_search_id);
+    if (!saved) {
+      throw new Error('saved_search_not_found');
+    }
+
+    const filters = JSON.parse(saved.filters) as SavedSearchFilters;
+    const current = await collectRunResults(
+      db,
+      saved.session_id,
+      lifecycle.attempts.map((summary) => summary.attemptId),
+      filters
+    );
+    const previous = await db.getPreviousRunRepos(saved.saved_search_id, run.id);
+    const diff = await diffRun(db, current, previous, saved.high_score);
+    await db.saveSavedSearchRunRepos(
+      run.id,
+      [...current].map(([repoId, result]) => ({ repo_id: repoId, score: result.score }))
+    );
+    await db.finishSavedSearchRun(run.id, {
+      status: 'completed',
+      resultCount: current.size,
+      newCount: diff.new.length,
+      newlyHighCount: diff.newly_high.length,
+      droppedCount: diff.dropped.length,
+      diff,
+    });
+    runLogger.info('saved_search_run_finished', {
+      results: current.size,
+      new: diff.new.length,
+      newly_high: diff.newly_high.length,
+      dropped: diff.dropped.length,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await db.finishSavedSearchRun(run.id, { status: 'failed', error: message });
+    runLogger.error('saved_search_run_failed', { error: message });
+  }
+}
+
+/** Cron entry point: claims due saved searches (so overlapping ticks skip them) and enqueues their search jobs. */
+export async function runDueSavedSearches(env: JobsEnv, ctx: ExecutionContext, logger: Logger): Promise<number> {
+  const db = new Database(env.DB);
+  const due = await db.listDueSavedSearches(MAX_RUNS_PER_TICK);
+  let started = 0;
+  for (const saved of due) {
+    if (!(await db.claimSavedSearch(saved.saved_search_id, SAVED_SEARCH_SCHEDULES[saved.schedule]))) {
+      continue;
+    }
+    const runId = await db.createSavedSearchRun(saved.saved_search_id, 'schedule');
+    await startSavedSearchRun(env, ctx, db, saved, runId, logger);
+    started++;
+  }
+  logger.info('saved_searches_tick', { due: due.length, started });
+  return started;
+}
@@ -3,6 +3,11 @@ import { Database, RepoRow } from './db';
 import { provisionBindings, BindingProvisionRequest, BindingProvisionResult, CfEnv } from './cf_api';
 import { queryCloudflareDocs, McpDocEvidence, McpClientEnv } from './mcp_cloudflare_docs_client';
 import { JudgeEnv } from './judge';
+import { chatCompletion, llmSelectionFromRow } from './llm';
+import type { LlmCallSink, LlmJsonSchema, LlmSelection } from './llm';
+import { resolveProfile } from './profiles';
+import type { ScaffoldGeneratorConfig } from './profiles';
+import { WebhookDispatcher } from './webhooks';
 
 export interface ScaffolderEnv extends CfEnv, McpClientEnv, JudgeEnv {
   ARTIFACTS: R2Bucket;
@@ -15,6 +20,8 @@ export interface ScaffoldRequest {
   userPrompt: string;
   scaffoldTitle: string;
   bindings: BindingProvisionRequest;
+  /** Lets the `scaffold_completed` webhook be delivered after the response. */
+  waitUntil?: ExecutionContext['waitUntil'];
 }
 
 export interface ScaffoldResult {
@@ -45,7 +52,23 @@ async function summarizeRepos(db: Database, sessionId: string, repoIds: string[]
     .filter((value): value is RepoSummary => Boolean(value));
 }
 
-async function generatePlan(env: JudgeEnv, request: { userPrompt: string; repos: RepoSummary[] }): Promise<{ docQueries: string[]; plan: string[] }> {
+const SCAFFOLD_PLAN_JSON_SCHEMA: LlmJsonSchema = {
+  name: 'scaffold_plan',
+  schema: {
+    type: 'object',
+    properties: {
+      doc_queries: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+      plan: { type: 'array', items: { type: 'string' }, maxItems: 8 },
+    },
+    required: ['doc_queries', 'plan'],
+  },
+};
+
+async function generatePlan(
+  env: JudgeEnv,
+  request: { userPrompt: string; repos: RepoSummary[]; systemPrompt: string; llm: LlmSelection | null },
+  onLlmCall?: LlmCallSink
+): Promise<{ docQueries: string[]; plan: string[] }> {
   const repoDetails = request.repos.map((entry) => ({
     full_name: entry.repo.full_name,
     description: entry.repo.description,
@@ -53,15 +76,10 @@ async function generatePlan(env: JudgeEnv, request: { userPrompt: string; repos:
     readme_excerpt: entry.readme ? entry.readme.slice(0, 1500) : null,
   }));
 
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('missing_openai_api_key');
-  }
-
   const messages = [
     {
       role: 'system',
-      content:
-        'You design production-ready Cloudflare Worker scaffolds. Given repository inspirations and a user prompt, produce JSON with doc_queries (<=5) and plan (<=8 bullet summaries).',
+      content: request.systemPrompt,
     },
     {
       role: 'user',
@@ -69,25 +87,19 @@ async function generatePlan(env: JudgeEnv, request: { userPrompt: string; repos:
     },
   ];
 
-  const res = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: env.JUDGE_MODEL ?? 'gpt-4o-mini',
-      temperature: 0,
-      messages,
-      response_format: { type: 'json_object' },
+  const { content } = await chatCompletion(env, {
+    purpose: 'scaffold_plan',
+    errorCode: 'scaffold_plan_error',
+    messages,
+    schema: SCAFFOLD_PLAN_JSON_SCHEMA,
+    llm: request.llm,
+    stub: () => ({
+      doc_queries: [request.userPrompt.slice(0, 100)],
+      plan: request.repos.slice(0, 8).map((entry) => `Adapt patterns from ${entry.repo.full_name}`),
     }),
+    onCall: onLlmCall,
   });
-  if (!res.ok) {
-    throw new Error(`scaffold_plan_error ${res.status}`);
-  }
-  const json = (await res.json()) as any;
-  const content = json.choices?.[0]?.message?.content ?? '{}';
-  const parsed = JSON.parse(content);
+  const parsed = JSON.parse(content ?? '{}');
   return {
     docQueries: Array.isArray(parsed.doc_queries) ? parsed.doc_queries.slice(0, 5) : [],
     plan: Array.isArray(parsed.plan) ? parsed.plan.slice(0, 8) : [],
@@ -156,12 +168,20 @@ function renderProjectTasks(): string {
   );
 }
 
-async function generateZip(title: string, plan: string[], bindings: BindingProvisionResult): Promise<Uint8Array> {
+async function generateZip(
+  generator: ScaffoldGeneratorConfig,
+  title: string,
+  plan: string[],
+  bindings: BindingProvisionResult
+): Promise<Uint8Array> {
   const zip = new JSZip();
   zip.file('README.md', `# ${title}\n\n## Plan\n\n${plan.map((item) => `- ${item}`).join('\n')}`);
-  zip.file('wrangler.toml', renderWranglerToml(title, bindings));
   zip.file('AGENT.md', renderAgentMd());
   zip.file('.agents/project_tasks.json', renderProjectTasks());
+  if (generator.kind === 'generic') {
+    return zip.generateAsync({ type: 'uint8array' });
+  }
+  zip.file('wrangler.toml', renderWranglerToml(title, bindings));
   zip.file('package.json', JSON.stringify({ name: title, scripts: { deploy: 'wrangler deploy' } }, null, 2));
   zip.file('src/index.ts', renderScaffoldIndex());
   zip.folder('migrations')?.file('.keep', '');
@@ -175,17 +195,31 @@ export async function createScaffold(env: ScaffolderEnv, db: Database, request:
     throw new Error('no_repos_selected');
   }
 
-  const plan = await generatePlan(env, { userPrompt: request.userPrompt, repos: repoSummaries });
+  const session = await db.getSession(request.sessionId);
+  const profile = await resolveProfile(db, session?.profile_id);
+  const generator = profile.scaffold_generator;
+  const scaffoldId = crypto.randomUUID();
+  const plan = await generatePlan(
+    env,
+    {
+      userPrompt: request.userPrompt,
+      repos: repoSummaries,
+      systemPrompt: generator.system_prompt,
+      llm: llmSelectionFromRow(session) ?? profile.llm,
+    },
+    (call) => db.recordLlmCall({ ...call, session_id: request.sessionId, attempt_id: request.attemptId ?? null, scaffold_id: scaffoldId })
+  );
   const docEvidence: McpDocEvidence[] = [];
-  for (const query of plan.docQueries) {
-    const evidence = await queryCloudflareDocs(env, query);
-    docEvidence.push(...evidence);
+  let bindingResult: BindingProvisionResult = { d1: [], r2: [], kv: [], queues: [] };
+  if (generator.kind === 'cloudflare-worker') {
+    for (const query of plan.docQueries) {
+      const evidence = await queryCloudflareDocs(env, query);
+      docEvidence.push(...evidence);
+    }
+    bindingResult = await provisionBindings(env, request.bindings);
   }
 
-  const bindingResult = await provisionBindings(env, request.bindings);
-
-  const zipBytes = await generateZip(request.scaffoldTitle, plan.plan, bindingResult);
-  const scaffoldId = crypto.randomUUID();
+  const zipBytes = await generateZip(generator, request.scaffoldTitle, plan.plan, bindingResult);
   const artifactKey = `${request.sessionId}/${scaffoldId}.zip`;
 
   await env.ARTIFACTS.put(artifactKey, zipBytes, {
@@ -210,6 +244,16 @@ export async function createScaffold(env: ScaffolderEnv, db: Database, request:
     status: 'ready',
   });
 
+  const webhooks = new WebhookDispatcher(db, request.sessionId, undefined, request.waitUntil);
+  webhooks.emit('scaffold_completed', {
+    scaffold_id: scaffoldId,
+    attempt_id: request.attemptId ?? null,
+    title: request.scaffoldTitle,
+    artifact_key: artifactKey,
+    selected_repo_ids: request.selectedRepoIds,
+  });
+  await webhooks.flush();
+
   return {
     scaffold_id: scaffoldId,
     title: request.scaffoldTitle,
@@ -1,42 +1,88 @@
 import { Database } from './db';
-import { hashString, Logger } from './util';
-import { mapRepoToRow, runGitHubSearch, GitHubSearchResponse, fetchReadme } from './github';
-import { computeStatistics, runJudge } from './judge';
+import type { PriorSessionRepoRow, SearchAttemptRow } from './db';
+import { dedupeBy, hashString, Logger } from './util';
+import { mapRepoToRow, mapRowToRepo, GitHubSearchResponse } from './github';
+import { fuseRankings } from './fusion';
+import type { FusedRepo } from './fusion';
+import { watchAttemptCancellation } from './cancellation';
+import { WebhookDispatcher, withWebhooks } from './webhooks';
+import { llmSelectionFromRow, resolveLlm } from './llm';
+import type { LlmCallSink, LlmSelection } from './llm';
+import { inspectRepos } from './inspector';
+import { indexLibrary } from './library';
+import type { LibraryEnv } from './library';
+import type { RepoFacets } from './inspector';
+import type { CodeMatch, GitHubRepository } from './github';
+import { computeStatistics, runChunkedJudge, runEnsembleJudge } from './judge';
+import type { JudgeEnsemble, ScoreStatistics } from './judge';
+import { planSearch } from './planner';
+import type { SearchIntent, SearchMode } from './planner';
+import { resolveProfile } from './profiles';
+import { resolveSessionRubric } from './rubrics';
+import type { JudgeRubric } from './rubrics';
+import type { SearchProfile } from './profiles';
 import type { JudgeEnv } from './judge';
+import type { GitHubThrottleEvent } from './github_client';
+import { createSearchProvider } from './providers';
+import type { ProviderEnv, ProviderKind } from './providers';
+
+export type RefinementStrategy = 'linear' | 'beam';
 
 export interface SearchRetryPolicy {
+  /** Total attempts for `linear`; refinement levels (the initial attempt included) for `beam`. */
   max_attempts?: number;
   min_score?: number;
+  /** `linear` follows the first recommendation; `beam` runs several recommendations per level in parallel. */
+  strategy?: RefinementStrategy;
+  /** Beam only: recommended queries run concurrently per level. */
+  beam_width?: number;
+  /** Beam only: best-scoring branches whose recommendations feed the next level. */
+  beam_keep?: number;
+  /** Stop refining once the planner and judge calls of this search have cost this much. */
+  budget_usd?: number;
 }
 
 export interface SearchCallbacks {
   onAttemptStart?: (payload: { resultGroup: number; query: string; attemptId: number }) => void | Promise<void>;
   onGitHubBatch?: (payload: { attemptId: number; repos: Array<{ full_name: string; html_url: string; description: string | null }>; count: number }) => void | Promise<void>;
+  onJudgeStart?: (payload: { attemptId: number; count: number }) => void | Promise<void>;
   onJudgeUpdate?: (payload: {
     attemptId: number;
     findings: string;
-    stats: { median: number; top5Mean: number };
+    stats: ScoreStatistics;
     recommendations: string[];
     perRepo: Array<{ full_name: string; score: number; note: string }>;
   }) => void | Promise<void>;
-  onRefinedSearch?: (payload: { previousQuery: string; newQuery: string }) => void | Promise<void>;
+  onRefinedSearch?: (payload: { previousQuery: string; newQuery: string; parentAttemptId: number }) => void | Promise<void>;
+  onThrottled?: (payload: { attemptId: number } & GitHubThrottleEvent) => void | Promise<void>;
   onAttemptComplete?: (summary: SearchAttemptSummary) => void | Promise<void>;
+  onAttemptCancelled?: (payload: { attemptId: number; keptResults: number }) => void | Promise<void>;
 }
 
 export interface SearchOptions {
   sessionId: string;
   query: string;
   naturalLanguageRequest: string;
+  profileId?: string;
+  mode?: SearchMode;
+  provider?: ProviderKind;
   baseKeywords?: boolean;
   maxResults?: number;
   searchWithinSessions?: string[];
+  /** With `searchWithinSessions`, false re-scores only the stored repos without querying GitHub. */
+  includeGitHub?: boolean;
   retryPolicy?: SearchRetryPolicy;
+  /** Scores every attempt with several judge configurations instead of one. */
+  judgeEnsemble?: JudgeEnsemble;
   callbacks?: SearchCallbacks;
   logger?: Logger;
+  reservedAttempt?: SearchAttemptRow;
+  /** Request handlers pass theirs so webhook deliveries finish after the response instead of delaying it. */
+  waitUntil?: ExecutionContext['waitUntil'];
 }
 
-export interface SearchExecutionContext extends JudgeEnv {
-  GITHUB_TOKEN?: string;
+export interface SearchExecutionContext extends JudgeEnv, ProviderEnv, LibraryEnv {
+  README_CACHE_TTL_SECONDS?: string;
   logger: Logger;
 }
 
@@ -46,17 +92,124 @@ export interface SearchAttemptSummary {
   expandedQueries: string[];
   judgeFindings: string;
   recommendations: string[];
-  stats: { median: number; top5Mean: number };
+  stats: ScoreStatistics;
   totalRepos: number;
+  totalCount: number;
+  incompleteResults: boolean;
+  /** The attempt whose recommendation this one ran; null for the initial attempt. */
+  parentAttemptId: number | null;
+  depth: number;
 }
 
 export interface SearchLifecycleResult {
   attempts: SearchAttemptSummary[];
+  /** True when an attempt was cancelled; its partial results are kept and it is not refined further. */
+  cancelled: boolean;
+  /** USD cost of every LLM call made by this search, from the `llm_calls` price table. */
+  totalCost: number;
+  budgetExhausted: boolean;
+}
+
+/**
+ * Upper bound on `maxResults`. Every discovered repo goes through hydration, inspection, indexing,
+ * embedding and judging, so discovery stays far below GitHub's 1000-per-query cap.
+ */
+export const MAX_SEARCH_RESULTS = 100;
+
+/** Sessions `searchWithinSessions` may name; each id is a bound D1 parameter. */
+export const MAX_PRIOR_SESSIONS = 20;
+/** Stored repos loaded per prior-corpus search, as a multiple of `maxResults`, before lexical re-ranking. */
+const PRIOR_CORPUS_FACTOR = 4;
+
+/** What an attempt had gathered so far, so a cancelled attempt can keep its partial results. */
+interface AttemptProgress {
+  fused: FusedRepo[];
+  stored: boolean;
+}
+
+/**
+ * Cheap lexical pre-ranking of repos stored by earlier sessions against the new intent, so the
+ * judge sees the most plausible `maxResults` of them. Ties keep the prior judge order.
+ */
+function rankPriorCorpus(rows: PriorSessionRepoRow[], intent: SearchIntent, query: string, limit: number): PriorSessionRepoRow[] {
+  const intentTerms = [...intent.keywords, ...intent.topics, ...intent.code_terms];
+  const terms = (intentTerms.length ? intentTerms : query.split(/\s+/).filter((term) => term && !term.includes(':')))
+    .map((term) => term.toLowerCase().replace(/"/g, ''))
+    .filter(Boolean);
+  const scored = rows.map((row) => {
+    const haystack = [row.full_name, row.description ?? '', row.topics ?? '', (row.readme ?? '').slice(0, 5000)]
+      .join(' ')
+      .toLowerCase();
+    return { row, score: terms.filter((term) => haystack.includes(term)).length };
+  });
+  const matching = scored.filter((entry) => entry.score > 0);
+  return (matching.length ? matching : scored)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => entry.row);
 }
 
-async function gatherSearchWithin(db: Database, sessionIds: string[]): Promise<string[]> {
-  if (!sessionIds.length) return [];
-  return db.getRepoIdsForSessions(sessionIds);
+function interleave<T>(a: T[], b: T[]): T[] {
+  const result: T[] = [];
+  for (let idx = 0; idx < Math.max(a.length, b.length); idx++) {
+    if (idx < a.length) result.push(a[idx]);
+    if (idx < b.length) result.push(b[idx]);
+  }
+  return result;
+}
+
+/**
+ * Creates the attempt row, `queued`, before any GitHub or judge work happens so callers can hand out
+ * `attempt_id`/`result_group` immediately; it turns `running` when the search starts. The expanded
+ * queries are filled in once known, and the judge model is replaced by the one the provider reports.
+ */
+export async function reserveSearchAttempt(
+  ctx: Pick<SearchExecutionContext, 'JUDGE_MODEL' | 'LLM_PROVIDER'>,
+  db: Database,
+  sessionId: string,
+  query: string,
+  profileId: string,
+  mode: SearchMode = 'repositories',
+  provider: ProviderKind = 'github',
+  parent?: { attemptId: number; depth: number }
+): Promise<SearchAttemptRow> {
+  const resultGroup = await db.nextResultGroup(sessionId);
+  return db.createSearchAttempt({
+    sessionId,
+    resultGroup,
+    searchQuery: JSON.stringify([query]),
+    judgeModel: resolveLlm(ctx).model,
+    judgeModelVersion: null,
+    searchStrategyVersion: 'workers-v1',
+    profileId,
+    searchMode: mode,
+    provider,
+    parentAttemptId: parent?.attemptId ?? null,
+    depth: parent ? parent.depth + 1 : 0,
+  });
+}
+
+export type AttemptTreeNode<T extends { attempt_id: number; parent_attempt_id: number | null }> = T & {
+  children: AttemptTreeNode<T>[];
+};
+
+/** Nests attempts under the attempt whose recommendation they ran; siblings keep the input order. */
+export function buildAttemptTree<T extends { attempt_id: number; parent_attempt_id: number | null }>(
+  attempts: T[]
+): AttemptTreeNode<T>[] {
+  const nodes = new Map<number, AttemptTreeNode<T>>(attempts.map((attempt) => [attempt.attempt_id, { ...attempt, children: [] }]));
+  const roots: AttemptTreeNode<T>[] = [];
+  for (const attempt of attempts) {
+    const node = nodes.get(attempt.attempt_id)!;
+    const parent = attempt.parent_attempt_id === null ? undefined : nodes.get(attempt.parent_attempt_id);
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+/** Beam ordering: best top-5 mean first, then best median. */
+function compareBranches(a: SearchAttemptSummary, b: SearchAttemptSummary): number {
+  return b.stats.top5Mean - a.stats.top5Mean || b.stats.median - a.stats.median;
 }
 
 async function executeSingleSearch(
@@ -67,9 +220,20 @@ async function executeSingleSearch(
   searchQuery: string,
   callbacks: SearchCallbacks | undefined,
   options: {
+    profile: SearchProfile;
+    mode: SearchMode;
     baseKeywords: boolean;
     maxResults: number;
-    searchWithinRepoIds: string[];
+    provider: ProviderKind;
+    priorCorpus: PriorSessionRepoRow[];
+    includeGitHub: boolean;
+    reservedAttempt?: SearchAttemptRow;
+    llm: LlmSelection | null;
+    rubric: JudgeRubric | null;
+    judgeEnsemble?: JudgeEnsemble;
+    signal?: AbortSignal;
+    progress?: AttemptProgress;
+    onLlmCall?: LlmCallSink;
   }
 ): Promise<{
   attemptId: number;
@@ -77,65 +241,119 @@ async function executeSingleSearch(
   expandedQueries: string[];
   judgeFindings: string;
   recommendations: string[];
-  stats: { median: number; top5Mean: number };
+  stats: ScoreStatistics;
   totalRepos: number;
+  totalCount: number;
+  incompleteResults: boolean;
 }> {
   const logger = ctx.logger.withContext({ session_id: sessionId, query: searchQuery });
   logger.info('execute_search_started');
   const start = Date.now();
 
-  const searchResponses = await runGitHubSearch({
-    query: searchQuery,
-    baseKeywords: options.baseKeywords,
-    maxResults: options.maxResults,
-    token: ctx.GITHUB_TOKEN,
-    searchWithinRepos: options.searchWithinRepoIds,
+  const attempt =
+    options.reservedAttempt ??
+    (await reserveSearchAttempt(ctx, db, sessionId, searchQuery, options.profile.profile_id, options.mode, options.provider));
+  await callbacks?.onAttemptStart?.({ resultGroup: attempt.result_group, query: searchQuery, attemptId: attempt.id });
+  const signal = options.signal;
+  const provider = createSearchProvider(ctx, options.provider, {
+    onThrottle: async (event) => {
+      logger.warn('github_throttled', { ...event });
+      await callbacks?.onThrottled?.({ attemptId: attempt.id, ...event });
+    },
+    signal,
   });
 
-  const expandedQueries = searchResponses.map((s) => s.query);
-  const queryHash = await hashString(JSON.stringify(expandedQueries));
-
-  const resultGroup = await db.nextResultGroup(sessionId);
-  const attempt = await db.createSearchAttempt({
-    sessionId,
-    resultGroup,
-    searchQuery: JSON.stringify(expandedQueries),
-    queryHash,
-    judgeModel: ctx.JUDGE_MODEL ?? 'gpt-4o-mini',
-    judgeModelVersion: '2024-05-01',
-    searchStrategyVersion: 'workers-v1',
+  const plan = await planSearch(
+    ctx,
+    {
+      naturalLanguageRequest: naturalRequest,
+      query: searchQuery,
+      baseKeywords: options.baseKeywords,
+      profile: options.profile,
+      mode: options.mode,
+      llm: options.llm,
+      signal,
+      onLlmCall: options.onLlmCall,
+    },
+    (err) => logger.warn('planner_fallback', { error: err instanceof Error ? err.message : String(err) })
+  );
+  signal?.throwIfAborted();
+  const queries = provider.compileQueries(plan, searchQuery);
+  const queryHash = await hashString(JSON.stringify(queries));
+  await db.updateSearchAttemptQuery(attempt.id, JSON.stringify(queries), queryHash, {
+    source_query: searchQuery,
+    planner: plan.planner,
+    intent: plan.intent,
+    dropped: plan.dropped,
   });
 
-  const repos = searchResponses.flatMap((response) => response.items);
-  callbacks?.onAttemptStart?.({ resultGroup, query: searchQuery, attemptId: attempt.id });
+  const searchResponses = options.includeGitHub
+    ? await provider.search(queries, { maxResults: options.maxResults, mode: options.mode })
+    : [];
 
-  const repoFullNames = repos.map((repo) => repo.full_name);
-  const etags = await db.getRepoEtags(repoFullNames);
+  const expandedQueries = searchResponses.map((s) => s.query);
+  const totalCount = searchResponses.reduce((sum, response) => sum + response.totalCount, 0);
+  const incompleteResults = searchResponses.some((response) => response.incompleteResults);
+  await db.updateSearchAttemptTotals(attempt.id, totalCount, incompleteResults);
 
-  const readmeResults = await Promise.all(
-    repos.map(async (repo) => {
-      const etag = etags.get(repo.full_name);
-      const readme = await fetchReadme(repo.full_name, ctx.GITHUB_TOKEN, etag);
-      return { repo, readme };
-    })
-  );
+  const fusedRepos = fuseRankings(searchResponses);
+  if (options.progress) {
+    options.progress.fused = fusedRepos;
+  }
+  signal?.throwIfAborted();
+  const fusion = new Map(fusedRepos.map((entry) => [entry.repo.node_id, entry]));
+  const repos = fusedRepos.map((entry) => entry.repo);
+  const codeMatches = new Map<string, CodeMatch[]>();
+  for (const repo of searchResponses.flatMap((response) => response.items)) {
+    if (repo.code_matches?.length) {
+      codeMatches.set(repo.node_id, [...(codeMatches.get(repo.node_id) ?? []), ...repo.code_matches]);
+    }
+  }
 
-  const reposWithReadmes = await Promise.all(
-    readmeResults.map(async ({ repo, readme }) => {
-      let content = readme.content;
-      if (content === null && readme.etag !== null) {
-        const cachedReadme = await db.getReadmeContent(repo.node_id);
-        if (cachedReadme) {
-          content = cachedReadme;
-        }
-      }
-      return {
-        repo: { ...repo, etag: readme.etag },
-        readme: content,
-      };
-    })
+  const uniqueRepos = dedupeBy(repos, (repo) => repo.node_id);
+  const readmeCache = await db.getReadmeCache(uniqueRepos.map((repo) => repo.node_id));
+  const hydration = await provider.hydrate(uniqueRepos, {
+    cache: readmeCache,
+    ttlSeconds: ctx.README_CACHE_TTL_SECONDS ? Number(ctx.README_CACHE_TTL_SECONDS) : undefined,
+    logger,
+  });
+  if (provider.countContributors) {
+    const contributors = await provider.countContributors(
+      hydration.entries.map((entry) => entry.repo),
+      await db.getStoredContributorCounts(uniqueRepos.map((repo) => repo.node_id))
+    );
+    for (const entry of hydration.entries) {
+      entry.repo.contributors_count = contributors.get(entry.repo.node_id) ?? null;
+    }
+  }
+  signal?.throwIfAborted();
+  const hydrated = new Map(hydration.entries.map((entry) => [entry.repo.node_id, entry]));
+  const cacheStats = { hit: 0, revalidated: 0, miss: 0 };
+  for (const entry of hydration.entries) {
+    cacheStats[entry.cache]++;
+  }
+  logger.info('repos_hydrated', { via: hydration.via, count: uniqueRepos.length, readme_cache: cacheStats });
+  await db.touchReadmeCache(hydration.entries.filter((entry) => entry.cache === 'revalidated').map((entry) => entry.repo.node_id));
+  await db.saveReadmeCache(
+    hydration.entries
+      .filter((entry) => entry.cache === 'miss' && entry.readme !== null)
+      .map((entry) => ({
+        repo_id: entry.repo.node_id,
+        full_name: entry.repo.full_name,
+        etag: entry.etag,
+        sha: entry.readmeSha,
+        content: entry.readme,
+      }))
   );
 
+  const reposWithReadmes = repos.map((repo) => {
+    const entry = hydrated.get(repo.node_id);
+    return {
+      repo: { ...repo, ...entry?.repo, code_matches: repo.code_matches },
+      readme: entry?.readme ?? null,
+    };
+  });
+
   const filteredRepos = reposWithReadmes.filter((entry) => entry.readme !== null);
 
   await callbacks?.onGitHubBatch?.({
@@ -148,9 +366,60 @@ async function executeSingleSearch(
     })),
   });
 
-  await db.insertRepos(filteredRepos.map((entry) => mapRepoToRow(entry.repo)));
+  if (provider.budgets) {
+    await db.saveGitHubBudgets(await provider.budgets());
+  }
+  const repoRows = filteredRepos.map((entry) => ({ repo: mapRepoToRow(entry.repo), readme: entry.readme }));
+  await db.insertRepos(repoRows.map((entry) => entry.repo));
+  await db.indexRepoText(repoRows);
+  try {
+    await indexLibrary(ctx, db, filteredRepos, logger);
+  } catch (err) {
+    logger.warn('library_index_failed', { error: err instanceof Error ? err.message : String(err) });
+  }
+
+  const liveIds = new Set(filteredRepos.map((entry) => entry.repo.node_id));
+  const priorRepos = rankPriorCorpus(
+    options.priorCorpus.filter((row) => !liveIds.has(row.id) && row.readme !== null),
+    plan.intent,
+    searchQuery,
+    options.maxResults
+  ).map((row) => {
+    if (row.code_matches) {
+      codeMatches.set(row.id, JSON.parse(row.code_matches));
+    }
+    return { repo: mapRowToRepo(row), readme: row.readme, source: 'prior_session' as const };
+  });
+  const candidates = [...filteredRepos.map((entry) => ({ ...entry, source: 'github' as const })), ...priorRepos];
+  if (options.priorCorpus.length) {
+    logger.info('prior_session_corpus', { stored: options.priorCorpus.length, reranked: priorRepos.length });
+  }
+
+  let facets = new Map<string, RepoFacets>();
+  if (options.profile.scaffold_generator.kind === 'cloudflare-worker') {
+    const inspected = dedupeBy(
+      candidates.map((entry) => entry.repo).filter((repo) => (repo.provider ?? 'github') === provider.kind),
+      (repo) => repo.node_id
+    );
+    try {
+      const known = await db.getRepoFacets(inspected.map((repo) => repo.node_id));
+      facets = await inspectRepos(provider, inspected, { known, logger });
+      await db.saveRepoFacets(
+        inspected
+          .filter((repo) => facets.has(repo.node_id) && known.get(repo.node_id)?.head_sha !== repo.head_sha)
+          .map((repo) => ({ repoId: repo.node_id, headSha: repo.head_sha ?? null, facets: facets.get(repo.node_id)! }))
+      );
+      logger.info('repos_inspected', { count: facets.size });
+    } catch (err) {
+      // Facets only enrich the judge payload; a rate-limited inspection must not fail the search.
+      if (signal?.aborted) throw err;
+      facets = new Map();
+      logger.warn('repo_inspection_failed', { error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
   await db.insertSearchResults(
-    filteredRepos.map((entry, idx) => ({
+    candidates.map((entry, idx) => ({
       session_id: sessionId,
       search_attempt_id: attempt.id,
       repo_id: entry.repo.node_id,
@@ -159,12 +428,21 @@ async function executeSingleSearch(
       judge_finding: null,
       judge_relevance_score: null,
       batch_id: idx,
+      code_matches: codeMatches.has(entry.repo.node_id) ? JSON.stringify(codeMatches.get(entry.repo.node_id)) : null,
+      source: entry.source,
+      matched_queries: fusion.has(entry.repo.node_id) ? JSON.stringify(fusion.get(entry.repo.node_id)!.matchedQueries) : null,
+      fused_score: fusion.get(entry.repo.node_id)?.fusedScore ?? null,
+      fused_rank: fusion.get(entry.repo.node_id)?.fusedRank ?? null,
     }))
   );
+  if (options.progress) {
+    options.progress.stored = true;
+  }
+  signal?.throwIfAborted();
 
   const judgePayload = {
     natural_language_request: naturalRequest,
-    repos: filteredRepos.slice(0, 20).map((entry) => ({
+    repos: interleave<{ repo: GitHubRepository; readme: string | null }>(filteredRepos, priorRepos).map((entry) => ({
       full_name: entry.repo.full_name,
       html_url: entry.repo.html_url,
       description: entry.repo.description,
@@ -172,10 +450,39 @@ async function executeSingleSearch(
       language: entry.repo.language,
       topics: entry.repo.topics,
       readme_excerpt: entry.readme ? entry.readme.slice(0, 2000) : null,
+      code_matches: codeMatches.get(entry.repo.node_id)?.slice(0, 5).map((match) => ({
+        path: match.path,
+        fragments: match.fragments.slice(0, 2).map((fragment) => fragment.slice(0, 300)),
+      })),
+      facets: facets.get(entry.repo.node_id),
     })),
   };
-  const judge = await runJudge(ctx, judgePayload);
+  await callbacks?.onJudgeStart?.({ attemptId: attempt.id, count: judgePayload.repos.length });
+  const judgeOptions = {
+    rubric: options.rubric?.instructions ?? options.profile.judge_rubric,
+    criteria: options.rubric?.criteria,
+    llm: options.llm,
+    signal,
+    onLlmCall: options.onLlmCall,
+  };
+  const judge = options.judgeEnsemble
+    ? await runEnsembleJudge(ctx, judgePayload, options.judgeEnsemble, judgeOptions)
+    : await runChunkedJudge(ctx, judgePayload, judgeOptions);
+  if (judge.errors.length) {
+    logger.warn('judge_chunks_failed', { chunks: judge.chunks, failed: judge.errors.length, errors: judge.errors });
+  }
+  if (judge.path !== 'llm') {
+    logger.warn('judge_output_repaired', { path: judge.path, repairs: judge.repairs.slice(0, 20) });
+  }
+  await db.updateSearchAttemptJudgeModel(attempt.id, judge.model, judge.model_version);
+  await db.updateSearchAttemptJudgePath(attempt.id, judge.path);
   const stats = computeStatistics(judge.per_repo);
+  if (options.rubric) {
+    await db.updateSearchAttemptRubric(attempt.id, options.rubric.rubric_id, options.rubric.version);
+  }
+  if (judge.ensemble) {
+    await db.updateSearchAttemptEnsemble(attempt.id, { ...judge.ensemble, stats: stats.ensemble });
+  }
   await callbacks?.onJudgeUpdate?.({
     attemptId: attempt.id,
     findings: judge.overall_findings,
@@ -191,20 +498,22 @@ async function executeSingleSearch(
     recommendations: judge.recommendations,
   });
 
-  const fullNameToNode = new Map(repos.map((entry) => [entry.full_name, entry.node_id]));
+  const fullNameToNode = new Map(candidates.map((entry) => [entry.repo.full_name, entry.repo.node_id]));
   const judgeScores = judge.per_repo
-    .map((item) => ({
-      repo_id: fullNameToNode.get(item.full_name) ?? item.full_name,
-      score: item.score,
-      note: item.note,
-    }))
-    .filter((item): item is { repo_id: string; score: number; note: string } => Boolean(item.repo_id));
+    .map(({ full_name: fullName, ...item }) => ({ ...item, repo_id: fullNameToNode.get(fullName) ?? fullName }))
+    .filter((item) => Boolean(item.repo_id));
   await db.updateResultScores(attempt.id, judgeScores);
+  for (const status of ['skipped', 'failed'] as const) {
+    const repoIds = candidates
+      .filter((entry) => judge.status.get(entry.repo.full_name) === status)
+      .map((entry) => entry.repo.node_id);
+    await db.updateResultScoreStatus(attempt.id, repoIds, status);
+  }
 
   const latency = Date.now() - start;
   logger.info('execute_search_finished', {
     latency,
-    total_repos: repos.length,
+    total_repos: repos.length + priorRepos.length,
     median_score: stats.median,
   });
 
@@ -215,10 +524,40 @@ async function executeSingleSearch(
     judgeFindings: judge.overall_findings,
     recommendations: judge.recommendations,
     stats,
-    totalRepos: repos.length,
+    totalRepos: repos.length + priorRepos.length,
+    totalCount,
+    incompleteResults,
   };
 }
 
+/**
+ * Stores the repos a cancelled attempt had already found but not yet saved (no README, no judge
+ * score), so the partial result set stays browsable. Returns how many results the attempt keeps.
+ */
+async function keepPartialResults(db: Database, sessionId: string, attemptId: number, progress: AttemptProgress): Promise<number> {
+  if (!progress.stored && progress.fused.length) {
+    await db.insertRepos(progress.fused.map((entry) => mapRepoToRow(entry.repo)));
+    await db.insertSearchResults(
+      progress.fused.map((entry, idx) => ({
+        session_id: sessionId,
+        search_attempt_id: attemptId,
+        repo_id: entry.repo.node_id,
+        repo_url: entry.repo.html_url,
+        readme_content: null,
+        judge_finding: null,
+        judge_relevance_score: null,
+        batch_id: idx,
+        code_matches: entry.repo.code_matches?.length ? JSON.stringify(entry.repo.code_matches) : null,
+        source: 'github',
+        matched_queries: JSON.stringify(entry.matchedQueries),
+        fused_score: entry.fusedScore,
+        fused_rank: entry.fusedRank,
+      }))
+    );
+  }
+  return db.countAttemptResults(attemptId);
+}
+
 export async function runSearchLifecycle(
   ctx: SearchExecutionContext,
   db: Database,
@@ -226,46 +565,195 @@ export async function runSearchLifecycle(
 ): Promise<SearchLifecycleResult> {
   const logger = options.logger ?? new Logger();
   const baseKeywords = options.baseKeywords ?? true;
-  const maxResults = options.maxResults ?? 30;
+  const maxResults = Math.min(options.maxResults ?? 30, MAX_SEARCH_RESULTS);
   const retryPolicy = options.retryPolicy ?? { max_attempts: 3, min_score: 0.65 };
-  const searchWithin = await gatherSearchWithin(db, options.searchWithinSessions ?? []);
+  const priorCorpus = await db.listPriorSessionRepos(
+    (options.searchWithinSessions ?? []).slice(0, MAX_PRIOR_SESSIONS),
+    maxResults * PRIOR_CORPUS_FACTOR
+  );
+  const profile = await resolveProfile(db, options.profileId ?? options.reservedAttempt?.profile_id);
+  const session = await db.getSession(options.sessionId);
+  const llm = llmSelectionFromRow(session) ?? profile.llm;
+  const rubric = await resolveSessionRubric(db, session);
+
+  const mode = options.mode ?? 'repositories';
+  const provider = options.provider ?? (options.reservedAttempt?.provider as ProviderKind | undefined) ?? 'github';
+
+  const webhooks = new WebhookDispatcher(db, options.sessionId, logger, options.waitUntil);
+  const callbacks = withWebhooks(options.callbacks, webhooks);
 
   const attempts: SearchAttemptSummary[] = [];
-  let currentQuery = options.query;
-  for (let attemptIndex = 0; attemptIndex < (retryPolicy.max_attempts ?? 1); attemptIndex++) {
-    const summary = await executeSingleSearch(
-      { ...ctx, logger },
-      db,
-      options.sessionId,
-      options.naturalLanguageRequest,
-      currentQuery,
-      options.callbacks,
-      {
-        baseKeywords,
-        maxResults,
-        searchWithinRepoIds: searchWithin,
-      }
-    );
-    attempts.push(summary);
-    await options.callbacks?.onAttemptComplete?.(summary);
-    if (summary.stats.median >= (retryPolicy.min_score ?? 0.65) || summary.stats.top5Mean >= 0.75) {
-      break;
-    }
-    if (!summary.recommendations.length) {
-      break;
-    }
-    const previousQuery = currentQuery;
-    currentQuery = summary.recommendations[0];
-    options.callbacks?.onRefinedSearch?.({ previousQuery, newQuery: currentQuery });
+  let totalCost = 0;
+  let cancelled = false;
+  const minScore = retryPolicy.min_score ?? 0.65;
+  const maxAttempts = retryPolicy.max_attempts ?? 1;
+  const satisfied = (summary: SearchAttemptSummary) => summary.stats.median >= minScore || summary.stats.top5Mean >= 0.75;
+  const overBudget = (summary: SearchAttemptSummary) => {
+    if (retryPolicy.budget_usd === undefined || totalCost < retryPolicy.budget_usd) return false;
+    logger.info('llm_budget_exhausted', {
+      session_id: options.sessionId,
+      attempt_id: summary.attemptId,
+      total_cost: totalCost,
+      budget_usd: retryPolicy.budget_usd,
+    });
+    return true;
+  };
+  const reserve = (query: string, parent: SearchAttemptSummary | null) =>
+    reserveSearchAttempt(ctx, db, options.sessionId, query, profile.profile_id, mode, provider, parent ?? undefined);
+  const refine = async (parent: SearchAttemptSummary, previousQuery: string, newQuery: string) => {
+    await callbacks.onRefinedSearch?.({ previousQuery, newQuery, parentAttemptId: parent.attemptId });
     logger.info('refined_search', {
       session_id: options.sessionId,
+      parent_attempt_id: parent.attemptId,
       previous_query: previousQuery,
-      new_query: summary.recommendations[0],
+      new_query: newQuery,
       reason: 'low_score',
-      median_score: summary.stats.median,
-      top5_mean_score: summary.stats.top5Mean,
+      median_score: parent.stats.median,
+      top5_mean_score: parent.stats.top5Mean,
     });
+  };
+
+  /** Runs one reserved attempt to completion; null when it was cancelled (its partial results are kept). */
+  const runAttempt = async (attempt: SearchAttemptRow, query: string): Promise<SearchAttemptSummary | null> => {
+    if (!(await db.startSearchAttempt(attempt.id))) {
+      cancelled = true;
+      logger.info('search_attempt_cancelled', { session_id: options.sessionId, attempt_id: attempt.id, kept_results: 0 });
+      await callbacks.onAttemptCancelled?.({ attemptId: attempt.id, keptResults: 0 });
+      return null;
+    }
+    const cancellation = watchAttemptCancellation(db, attempt.id);
+    const progress: AttemptProgress = { fused: [], stored: false };
+    const onLlmCall: LlmCallSink = async (call) => {
+      totalCost += call.cost_usd ?? 0;
+      await db.recordLlmCall({ ...call, session_id: options.sessionId, attempt_id: attempt.id, scaffold_id: null });
+    };
+    let summary: SearchAttemptSummary;
+    try {
+      const result = await executeSingleSearch(
+        { ...ctx, logger },
+        db,
+        options.sessionId,
+        options.naturalLanguageRequest,
+        query,
+        callbacks,
+        {
+          profile,
+          mode,
+          baseKeywords,
+          maxResults,
+          provider,
+          priorCorpus,
+          includeGitHub: options.includeGitHub ?? true,
+          reservedAttempt: attempt,
+          llm,
+          rubric,
+          judgeEnsemble: options.judgeEnsemble,
+          signal: cancellation.signal,
+          progress,
+          onLlmCall,
+        }
+      );
+      summary = { ...result, parentAttemptId: attempt.parent_attempt_id ?? null, depth: attempt.depth ?? 0 };
+      await db.updateSearchAttemptScores(attempt.id, summary.stats);
+      await db.finishSearchAttempt(attempt.id, 'completed');
+    } catch (err) {
+      if (!cancellation.signal.aborted) {
+        await db.finishSearchAttempt(attempt.id, 'failed');
+        throw err;
+      }
+      // Cancelled from this socket/isolate or via the REST endpoint; either way the row may still say running.
+      cancelled = true;
+      await db.finishSearchAttempt(attempt.id, 'cancelled');
+      const keptResults = await keepPartialResults(db, options.sessionId, attempt.id, progress);
+      logger.info('search_attempt_cancelled', { session_id: options.sessionId, attempt_id: attempt.id, kept_results: keptResults });
+      await callbacks.onAttemptCancelled?.({ attemptId: attempt.id, keptResults });
+      return null;
+    } finally {
+      cancellation.dispose();
+    }
+    attempts.push(summary);
+    await callbacks.onAttemptComplete?.(summary);
+    return summary;
+  };
+
+  const root = await runAttempt(options.reservedAttempt ?? (await reserve(options.query, null)), options.query);
+  let budgetExhausted = false;
+
+  if (retryPolicy.strategy === 'beam') {
+    const width = retryPolicy.beam_width ?? 3;
+    const keep = retryPolicy.beam_keep ?? 2;
+    const queries = new Map<number, string>(root ? [[root.attemptId, options.query]] : []);
+    const visited = new Set([options.query.trim().toLowerCase()]);
+    let frontier = root ? [root] : [];
+    for (let level = 1; level < maxAttempts && frontier.length && !cancelled; level++) {
+      if (frontier.some(satisfied)) break;
+      if (overBudget(frontier[0])) {
+        budgetExhausted = true;
+        break;
+      }
+      // Best branch first, so its recommendations win the `width` slots.
+      const branches: Array<{ parent: SearchAttemptSummary; query: string }> = [];
+      for (const parent of frontier) {
+        for (const query of parent.recommendations) {
+          const key = query.trim().toLowerCase();
+          if (branches.length >= width || visited.has(key)) continue;
+          visited.add(key);
+          branches.push({ parent, query });
+        }
+      }
+      if (!branches.length) break;
+
+      // Reserved one at a time so each branch gets its own result group before they run concurrently.
+      const reserved: SearchAttemptRow[] = [];
+      for (const branch of branches) {
+        await refine(branch.parent, queries.get(branch.parent.attemptId) ?? options.query, branch.query);
+        reserved.push(await reserve(branch.query, branch.parent));
+      }
+      const settled = await Promise.allSettled(reserved.map((attempt, idx) => runAttempt(attempt, branches[idx].query)));
+      const children: SearchAttemptSummary[] = [];
+      const failures: unknown[] = [];
+      settled.forEach((outcome, idx) => {
+        if (outcome.status === 'rejected') {
+          failures.push(outcome.reason);
+          logger.warn('beam_branch_failed', {
+            session_id: options.sessionId,
+            attempt_id: reserved[idx].id,
+            error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+          });
+        } else if (outcome.value) {
+          queries.set(outcome.value.attemptId, branches[idx].query);
+          children.push(outcome.value);
+        }
+      });
+      if (!children.length && failures.length && !cancelled) {
+        throw failures[0];
+      }
+      frontier = children.sort(compareBranches).slice(0, keep);
+      logger.info('beam_level_completed', {
+        session_id: options.sessionId,
+        level,
+        branches: branches.length,
+        kept: frontier.map((branch) => branch.attemptId),
+      });
+    }
+    await webhooks.flush();
+    return { attempts, cancelled, totalCost, budgetExhausted };
+  }
+
+  let current = root;
+  let currentQuery = options.query;
+  for (let attemptIndex = 1; current && attemptIndex < maxAttempts; attemptIndex++) {
+    if (satisfied(current) || !current.recommendations.length) break;
+    if (overBudget(current)) {
+      budgetExhausted = true;
+      break;
+    }
+    const nextQuery = current.recommendations[0];
+    await refine(current, currentQuery, nextQuery);
+    currentQuery = nextQuery;
+    current = await runAttempt(await reserve(nextQuery, current), nextQuery);
   }
 
-  return { attempts };
+  await webhooks.flush();
+  return { attempts, cancelled, totalCost, budgetExhausted };
 }
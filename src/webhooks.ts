@@ -0,0 +1,247 @@
+import { Database } from './db';
+import type { WebhookDeliveryRow, WebhookRow } from './db';
+import type { SearchCallbacks } from './search';
+import { Logger, signWebhookPayload } from './util';
+
+export const WEBHOOK_EVENTS = [
+  'attempt_started',
+  'github_batch',
+  'judge_update',
+  'refined_search',
+  'finalized',
+  'attempt_cancelled',
+  'scaffold_completed',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+const DELIVERY_TIMEOUT_MS = 10_000;
+/** Pending deliveries retried per cron tick. */
+const MAX_RETRIES_PER_TICK = 50;
+
+/** Backoff after the nth failed attempt: 1, 4, 16 and 64 minutes. */
+function retryDelaySeconds(attempts: number): number {
+  return 60 * 4 ** (attempts - 1);
+}
+
+/** Suffixes of names that only resolve inside private networks. */
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.localdomain', '.internal', '.intranet', '.lan', '.home.arpa', '.corp'];
+
+/**
+ * Webhook targets must be https URLs on a public host name: IP literals (the URL parser also turns
+ * decimal and hex forms into dotted IPv4), `localhost`, single-label and private-network names are
+ * rejected so signed payloads cannot be aimed at internal or link-local services.
+ */
+export function isPublicWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) return false;
+  const host = url.hostname.toLowerCase().replace(/\.$/, '');
+  if (host.startsWith('[') || /^[\d.]+$/.test(host)) return false;
+  if (host === 'localhost' || !host.includes('.')) return false;
+  return !PRIVATE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix));
+}
+
+export interface Webhook {
+  webhook_id: string;
+  session_id: string | null;
+  url: string;
+  events: WebhookEvent[];
+  created_at: string;
+}
+
+/** The secret is write-only: it is returned once, when generated on creation. */
+export function serializeWebhook(row: WebhookRow): Webhook {
+  return {
+    webhook_id: row.webhook_id,
+    session_id: row.session_id,
+    url: row.url,
+    events: JSON.parse(row.events),
+    created_at: row.created_at,
+  };
+}
+
+export function serializeWebhookDelivery(row: WebhookDeliveryRow) {
+  return {
+    delivery_id: row.id,
+    webhook_id: row.webhook_id,
+    event_id: row.event_id,
+    event_type: row.event_type,
+    session_id: row.session_id,
+    status: row.status,
+    attempts: row.attempts,
+    response_status: row.response_status,
+    error: row.error,
+    next_attempt_at: row.next_attempt_at,
+    created_at: row.created_at,
+    delivered_at: row.delivered_at,
+    payload: JSON.parse(row.payload),
+  };
+}
+
+/**
+ * POSTs the stored payload, signed with a fresh timestamp, and records the attempt. Failures stay
+ * `pending` with a backoff until `MAX_DELIVERY_ATTEMPTS`, then become `failed`.
+ */
+export async function attemptWebhookDelivery(db: Database, webhook: WebhookRow, delivery: WebhookDeliveryRow): Promise<boolean> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'github-search-nl-webhooks',
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Delivery': String(delivery.id),
+        'X-Webhook-Signature': await signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    if (!res.ok) {
+      error = `http_${res.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+  const attempts = delivery.attempts + 1;
+  const delivered = error === null;
+  const exhausted = !delivered && attempts >= MAX_DELIVERY_ATTEMPTS;
+  await db.recordWebhookDeliveryAttempt(delivery.id, {
+    status: delivered ? 'delivered' : exhausted ? 'failed' : 'pending',
+    attempts,
+    responseStatus,
+    error,
+    retryInSeconds: delivered || exhausted ? null : retryDelaySeconds(attempts),
+  });
+  return delivered;
+}
+
+/**
+ * Fans events out to the session's and the global subscriptions. `emit` does not wait for the
+ * receivers, so a slow endpoint never holds up a search; `flush` hands the first attempts to
+ * `waitUntil` when given one (request handlers), and otherwise waits for them (queue and cron).
+ */
+export class WebhookDispatcher {
+  private subscriptions: Promise<WebhookRow[]> | null = null;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(
+    private readonly db: Database,
+    private readonly sessionId: string,
+    private readonly logger?: Logger,
+    private readonly waitUntil?: ExecutionContext['waitUntil']
+  ) {}
+
+  emit(type: WebhookEvent, data: Record<string, unknown>): void {
+    const task: Promise<void> = this.deliver(type, data)
+      .catch((err) => {
+        this.logger?.warn('webhook_dispatch_failed', { event: type, error: err instanceof Error ? err.message : String(err) });
+      })
+      .finally(() => {
+        this.inFlight.delete(task);
+      });
+    this.inFlight.add(task);
+  }
+
+  async flush(): Promise<void> {
+    const settled = (async () => {
+      while (this.inFlight.size) {
+        await Promise.allSettled([...this.inFlight]);
+      }
+    })();
+    if (this.waitUntil) {
+      this.waitUntil(settled);
+      return;
+    }
+    await settled;
+  }
+
+  private async deliver(type: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    this.subscriptions ??= this.db.listWebhooks(this.sessionId);
+    const webhooks = (await this.subscriptions).filter((webhook) => (JSON.parse(webhook.events) as string[]).includes(type));
+    if (!webhooks.length) return;
+    const eventId = crypto.randomUUID();
+    const payload = JSON.stringify({ id: eventId, type, created_at: new Date().toISOString(), session_id: this.sessionId, data });
+    await Promise.all(
+      webhooks.map(async (webhook) => {
+        const delivery = await this.db.createWebhookDelivery({
+          webhookId: webhook.webhook_id,
+          eventId,
+          eventType: type,
+          sessionId: this.sessionId,
+          payload,
+        });
+        await attemptWebhookDelivery(this.db, webhook, delivery);
+      })
+    );
+  }
+}
+
+/** Wraps search callbacks so each lifecycle event is also sent to webhooks, with the WebSocket message fields. */
+export function withWebhooks(callbacks: SearchCallbacks | undefined, webhooks: WebhookDispatcher): SearchCallbacks {
+  return {
+    ...callbacks,
+    onAttemptStart: async (payload) => {
+      webhooks.emit('attempt_started', { attempt_id: payload.attemptId, result_group: payload.resultGroup, search_query: payload.query });
+      await callbacks?.onAttemptStart?.(payload);
+    },
+    onGitHubBatch: async (payload) => {
+      webhooks.emit('github_batch', { attempt_id: payload.attemptId, count: payload.count, repos: payload.repos });
+      await callbacks?.onGitHubBatch?.(payload);
+    },
+    onJudgeUpdate: async (payload) => {
+      webhooks.emit('judge_update', {
+        attempt_id: payload.attemptId,
+        score_summary: payload.stats,
+        findings: payload.findings,
+        recommendations: payload.recommendations,
+      });
+      await callbacks?.onJudgeUpdate?.(payload);
+    },
+    onRefinedSearch: async (payload) => {
+      webhooks.emit('refined_search', {
+        previous_query: payload.previousQuery,
+        new_query: payload.newQuery,
+        parent_attempt_id: payload.parentAttemptId,
+      });
+      await callbacks?.onRefinedSearch?.(payload);
+    },
+    onAttemptComplete: async (summary) => {
+      webhooks.emit('finalized', {
+        attempt_id: summary.attemptId,
+        result_group: summary.resultGroup,
+        total: summary.totalRepos,
+        score_summary: summary.stats,
+        recommendations: summary.recommendations,
+        parent_attempt_id: summary.parentAttemptId,
+        depth: summary.depth,
+      });
+      await callbacks?.onAttemptComplete?.(summary);
+    },
+    onAttemptCancelled: async (payload) => {
+      webhooks.emit('attempt_cancelled', { attempt_id: payload.attemptId, kept_results: payload.keptResults });
+      await callbacks?.onAttemptCancelled?.(payload);
+    },
+  };
+}
+
+/** Cron entry point: retries pending deliveries whose backoff has elapsed. */
+export async function retryWebhookDeliveries(env: { DB: D1Database }, logger: Logger): Promise<number> {
+  const db = new Database(env.DB);
+  const due = await db.listDueWebhookDeliveries(MAX_RETRIES_PER_TICK);
+  let delivered = 0;
+  for (const { delivery, webhook } of due) {
+    if (await attemptWebhookDelivery(db, webhook, delivery)) delivered++;
+  }
+  logger.info('webhook_retries', { due: due.length, delivered });
+  return delivered;
+}
@@ -1,5 +1,6 @@
 import { Database } from './db';
 import { runSearchLifecycle, SearchCallbacks } from './search';
+import { cancelSearchAttempt } from './cancellation';
 import { coalesceEvents, errorResponse, verifySessionToken } from './util';
 import type { ApiEnv } from './routes';
 
@@ -7,7 +8,7 @@ export interface WsEnv extends ApiEnv {
   SESSION_TOKEN_SECRET?: string;
 }
 
-export async function handleSessionWebSocket(request: Request, env: WsEnv): Promise<Response> {
+export async function handleSessionWebSocket(request: Request, env: WsEnv, ctx: ExecutionContext): Promise<Response> {
   const url = new URL(request.url);
   const sessionId = url.pathname.split('/').pop() ?? '';
   const token = url.searchParams.get('token');
@@ -80,8 +81,16 @@ export async function handleSessionWebSocket(request: Request, env: WsEnv): Prom
           onJudgeUpdate: (payload) => {
             emitJudgeUpdate(payload);
           },
-          onRefinedSearch: ({ previousQuery, newQuery }) => {
-            send({ type: 'refined_search', previous_query: previousQuery, new_query: newQuery });
+          onRefinedSearch: ({ previousQuery, newQuery, parentAttemptId }) => {
+            send({ type: 'refined_search', previous_query: previousQuery, new_query: newQuery, parent_attempt_id: parentAttemptId });
+          },
+          onThrottled: ({ attemptId, ...event }) => {
+            send({ type: 'github_throttled', attempt_id: attemptId, ...event });
+          },
+          onAttemptCancelled: async ({ attemptId, keptResults }) => {
+            await flushGitHubBatch();
+            await flushJudgeUpdate();
+            send({ type: 'attempt_cancelled', attempt_id: attemptId, kept_results: keptResults, incomplete: true });
           },
           onAttemptComplete: async (summary) => {
             await flushGitHubBatch();
@@ -101,13 +110,23 @@ export async function handleSessionWebSocket(request: Request, env: WsEnv): Prom
         await runSearchLifecycle(env, db, {
           sessionId,
           query: message.query,
+          profileId: message.profile_id ?? session.profile_id,
+          mode: message.mode,
+          provider: message.provider,
           naturalLanguageRequest: session.natural_language_request,
           baseKeywords: message.base_keywords,
           maxResults: message.max_results,
           callbacks,
+          waitUntil: (promise) => ctx.waitUntil(promise),
         });
       } else if (message.type === 'cancel_attempt') {
-        send({ type: 'ack', attempt_id: message.attempt_id });
+        const attempt = await db.getSearchAttempt(Number(message.attempt_id));
+        if (!attempt || attempt.session_id !== sessionId) {
+          send({ type: 'error', code: 'not_found', message: 'Attempt not found' });
+          return;
+        }
+        const cancelled = await cancelSearchAttempt(db, attempt.id);
+        send({ type: 'ack', attempt_id: attempt.id, status: cancelled ? 'cancelled' : attempt.status });
       }
     } catch (err) {
       console.error('ws_message_error', err);